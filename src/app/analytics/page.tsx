@@ -0,0 +1,5 @@
+import { AnalyticsPage } from "@/components/dashboard/AnalyticsPage";
+
+export default function Analytics() {
+  return <AnalyticsPage />;
+}
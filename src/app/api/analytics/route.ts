@@ -0,0 +1,56 @@
+import { NextResponse, type NextRequest } from "next/server";
+import type { UsageBucket } from "@/lib/codex";
+import {
+  DAY_MS,
+  DEFAULT_RANGE_DAYS,
+  getUsageReport,
+  isTimeZone,
+  isUsageDate,
+  MAX_RANGE_DAYS,
+  USAGE_BUCKETS,
+  wallClockMs,
+} from "@/lib/usageAnalytics";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// `from` and `to` are inclusive local dates (YYYY-MM-DD); `tz` is the browser's
+// IANA time zone so days and hours line up with the viewer's clock.
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const timeZone = params.get("tz") || "UTC";
+  if (!isTimeZone(timeZone)) {
+    return NextResponse.json({ error: "Unknown time zone" }, { status: 400 });
+  }
+  const bucket = (params.get("bucket") ?? "day") as UsageBucket;
+  if (!USAGE_BUCKETS.includes(bucket)) {
+    return NextResponse.json({ error: `bucket must be one of ${USAGE_BUCKETS.join(", ")}` }, { status: 400 });
+  }
+  const today = new Date(wallClockMs(Date.now(), timeZone)).toISOString().slice(0, 10);
+  const to = params.get("to") ?? today;
+  if (!isUsageDate(to)) {
+    return NextResponse.json({ error: "Expected from <= to as YYYY-MM-DD" }, { status: 400 });
+  }
+  const from = params.get("from") ?? new Date(Date.parse(to) - (DEFAULT_RANGE_DAYS - 1) * DAY_MS).toISOString().slice(0, 10);
+  if (!isUsageDate(from) || from > to) {
+    return NextResponse.json({ error: "Expected from <= to as YYYY-MM-DD" }, { status: 400 });
+  }
+  if (Date.parse(to) - Date.parse(from) > MAX_RANGE_DAYS * DAY_MS) {
+    return NextResponse.json({ error: `Date range is limited to ${MAX_RANGE_DAYS} days` }, { status: 400 });
+  }
+
+  try {
+    const report = await getUsageReport({
+      from,
+      to,
+      bucket,
+      timeZone,
+      source: params.get("source") || undefined,
+      hideArchived: params.get("archived") === "hide",
+    });
+    return NextResponse.json({ report });
+  } catch (error) {
+    console.error("/api/analytics error", error);
+    return NextResponse.json({ error: "Failed to build usage report" }, { status: 500 });
+  }
+}
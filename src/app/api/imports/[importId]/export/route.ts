@@ -0,0 +1,23 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getImportedSession } from "@/lib/imports";
+import { exportSessionResponse } from "@/lib/sessionExport";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ importId: string }> }
+) {
+  const { importId } = await context.params;
+  if (!importId) {
+    return NextResponse.json({ error: "Missing import id" }, { status: 400 });
+  }
+
+  return exportSessionResponse({
+    format: request.nextUrl.searchParams.get("format"),
+    load: () => getImportedSession(importId),
+    notFound: "Import not found",
+    route: `/api/imports/${importId}/export`,
+  });
+}
@@ -0,0 +1,42 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { redactSessionDetail } from "@/lib/codex";
+import { deleteImport, getImportedSession } from "@/lib/imports";
+import { redactionEnabled } from "@/lib/redaction";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ importId: string }> }
+) {
+  const { importId } = await context.params;
+  try {
+    const session = await getImportedSession(importId);
+    if (!session) {
+      return NextResponse.json({ error: "Import not found" }, { status: 404 });
+    }
+    return NextResponse.json({
+      session: redactionEnabled(request.nextUrl.searchParams) ? redactSessionDetail(session) : session,
+    });
+  } catch (error) {
+    console.error(`/api/imports/${importId} error`, error);
+    return NextResponse.json({ error: "Failed to load import" }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  context: { params: Promise<{ importId: string }> }
+) {
+  const { importId } = await context.params;
+  try {
+    if (!(await deleteImport(importId))) {
+      return NextResponse.json({ error: "Import not found" }, { status: 404 });
+    }
+    return NextResponse.json({ deleted: importId });
+  } catch (error) {
+    console.error(`/api/imports/${importId} delete error`, error);
+    return NextResponse.json({ error: "Failed to delete import" }, { status: 500 });
+  }
+}
@@ -0,0 +1,59 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { redactSummary } from "@/lib/codex";
+import { importRollout, listImports, MAX_IMPORT_BYTES, type ImportedSession } from "@/lib/imports";
+import { redactionEnabled } from "@/lib/redaction";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+export async function GET(request: NextRequest) {
+  try {
+    const imports = await listImports();
+    const redact = redactionEnabled(request.nextUrl.searchParams);
+    return NextResponse.json({
+      imports: redact ? imports.map((entry) => ({ ...entry, summary: redactSummary(entry.summary) })) : imports,
+    });
+  } catch (error) {
+    console.error("/api/imports error", error);
+    return NextResponse.json({ error: "Failed to list imports" }, { status: 500 });
+  }
+}
+
+// Accepts one or more rollouts as multipart `file` fields.
+export async function POST(request: NextRequest) {
+  // formData() buffers the whole body, so an oversized upload is turned away
+  // before it is read; the per-file check below is the backstop.
+  const length = Number(request.headers.get("content-length"));
+  if (Number.isFinite(length) && length > MAX_IMPORT_BYTES) {
+    return NextResponse.json({ error: "Upload is larger than the import limit" }, { status: 413 });
+  }
+  const form = await request.formData().catch(() => null);
+  const files = (form?.getAll("file") ?? []).filter((value): value is File => value instanceof File);
+  if (!files.length) {
+    return NextResponse.json({ error: "Expected at least one file" }, { status: 400 });
+  }
+
+  const imported: ImportedSession[] = [];
+  const errors: string[] = [];
+  try {
+    for (const file of files) {
+      if (file.size > MAX_IMPORT_BYTES) {
+        errors.push(`${file.name} is larger than the import limit`);
+        continue;
+      }
+      const result = await importRollout(file.name, Buffer.from(await file.arrayBuffer()));
+      if ("error" in result) {
+        errors.push(result.error);
+      } else {
+        imported.push(result.imported);
+      }
+    }
+  } catch (error) {
+    console.error("/api/imports upload error", error);
+    return NextResponse.json({ error: "Failed to store the upload" }, { status: 500 });
+  }
+  if (!imported.length) {
+    return NextResponse.json({ error: errors.join("; ") }, { status: 400 });
+  }
+  return NextResponse.json({ imports: imported.map((entry) => ({ ...entry, summary: redactSummary(entry.summary) })), errors });
+}
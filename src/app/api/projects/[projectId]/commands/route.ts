@@ -0,0 +1,29 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { redactCommandReport } from "@/lib/codex";
+import { getProjectCommandReport } from "@/lib/projectCommands";
+import { redactionEnabled } from "@/lib/redaction";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ projectId: string }> }
+) {
+  const { projectId } = await context.params;
+  if (!projectId) {
+    return NextResponse.json({ error: "Missing project id" }, { status: 400 });
+  }
+
+  const source = request.nextUrl.searchParams.get("source") || undefined;
+  const hideArchived = request.nextUrl.searchParams.get("archived") === "hide";
+  try {
+    const report = await getProjectCommandReport(projectId, { source, hideArchived });
+    return NextResponse.json({
+      report: redactionEnabled(request.nextUrl.searchParams) ? redactCommandReport(report) : report,
+    });
+  } catch (error) {
+    console.error(`/api/projects/${projectId}/commands error`, error);
+    return NextResponse.json({ error: "Failed to load shell commands" }, { status: 500 });
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { redactFileStats } from "@/lib/codex";
+import { getProjectFileStats } from "@/lib/projectFiles";
+import { redactionEnabled } from "@/lib/redaction";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ projectId: string }> }
+) {
+  const { projectId } = await context.params;
+  if (!projectId) {
+    return NextResponse.json({ error: "Missing project id" }, { status: 400 });
+  }
+
+  const source = request.nextUrl.searchParams.get("source") || undefined;
+  const hideArchived = request.nextUrl.searchParams.get("archived") === "hide";
+  try {
+    const files = await getProjectFileStats(projectId, { source, hideArchived });
+    return NextResponse.json({
+      files: redactionEnabled(request.nextUrl.searchParams) ? redactFileStats(files) : files,
+    });
+  } catch (error) {
+    console.error(`/api/projects/${projectId}/files error`, error);
+    return NextResponse.json({ error: "Failed to load file activity" }, { status: 500 });
+  }
+}
@@ -1,11 +1,12 @@
 import { NextResponse, type NextRequest } from "next/server";
-import { getSessionsForProject } from "@/lib/codex";
+import { getSessionsForProject, redactSummary } from "@/lib/codex";
+import { redactionEnabled } from "@/lib/redaction";
 
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
 
 export async function GET(
-  _request: NextRequest,
+  request: NextRequest,
   context: { params: Promise<{ projectId: string }> }
 ) {
   const { projectId } = await context.params;
@@ -13,9 +14,13 @@ export async function GET(
     return NextResponse.json({ error: "Missing project id" }, { status: 400 });
   }
 
+  const source = request.nextUrl.searchParams.get("source") || undefined;
+  const hideArchived = request.nextUrl.searchParams.get("archived") === "hide";
   try {
-    const sessions = await getSessionsForProject(projectId);
-    return NextResponse.json({ sessions });
+    const sessions = await getSessionsForProject(projectId, { source, hideArchived });
+    return NextResponse.json({
+      sessions: redactionEnabled(request.nextUrl.searchParams) ? sessions.map(redactSummary) : sessions,
+    });
   } catch (error) {
     console.error(`/api/projects/${projectId}/sessions error`, error);
     return NextResponse.json({ error: "Failed to load sessions" }, { status: 500 });
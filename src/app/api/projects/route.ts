@@ -1,13 +1,15 @@
-import { NextResponse } from "next/server";
-import { getProjectSummaries } from "@/lib/codex";
+import { NextResponse, type NextRequest } from "next/server";
+import { getProjectSummaries, getSessionSources } from "@/lib/codex";
 
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
 
-export async function GET() {
+export async function GET(request: NextRequest) {
+  const source = request.nextUrl.searchParams.get("source") || undefined;
+  const hideArchived = request.nextUrl.searchParams.get("archived") === "hide";
   try {
-    const projects = await getProjectSummaries();
-    return NextResponse.json({ projects });
+    const projects = await getProjectSummaries({ source, hideArchived });
+    return NextResponse.json({ projects, sources: getSessionSources() });
   } catch (error) {
     console.error("/api/projects error", error);
     return NextResponse.json({ error: "Failed to load projects" }, { status: 500 });
@@ -0,0 +1,40 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { redactSessionText } from "@/lib/codex";
+import { redactionEnabled } from "@/lib/redaction";
+import { SEARCH_ROLES, searchSessions, type SearchRole } from "@/lib/search";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const q = params.get("q")?.trim() ?? "";
+  if (!q) {
+    return NextResponse.json({ error: "Missing query" }, { status: 400 });
+  }
+
+  const roles = params
+    .getAll("role")
+    .flatMap((value) => value.split(","))
+    .filter((value): value is SearchRole => SEARCH_ROLES.includes(value as SearchRole));
+  const limit = Number(params.get("limit"));
+  try {
+    const results = await searchSessions({
+      q,
+      projectId: params.get("project") || undefined,
+      from: params.get("from") || undefined,
+      to: params.get("to") || undefined,
+      roles,
+      limit: Number.isFinite(limit) && limit > 0 ? limit : undefined,
+    });
+    // Snippets come from the index, which only holds masked text.
+    if (!redactionEnabled(params)) return NextResponse.json(results);
+    return NextResponse.json({
+      ...results,
+      hits: results.hits.map((hit) => ({ ...hit, sessionPreview: redactSessionText(hit.sessionPreview) })),
+    });
+  } catch (error) {
+    console.error("/api/search error", error);
+    return NextResponse.json({ error: "Search failed" }, { status: 500 });
+  }
+}
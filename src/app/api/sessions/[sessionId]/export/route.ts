@@ -0,0 +1,23 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getSessionDetail } from "@/lib/codex";
+import { exportSessionResponse } from "@/lib/sessionExport";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ sessionId: string }> }
+) {
+  const { sessionId } = await context.params;
+  if (!sessionId) {
+    return NextResponse.json({ error: "Missing session id" }, { status: 400 });
+  }
+
+  return exportSessionResponse({
+    format: request.nextUrl.searchParams.get("format"),
+    load: () => getSessionDetail(sessionId),
+    notFound: "Session not found",
+    route: `/api/sessions/${sessionId}/export`,
+  });
+}
@@ -1,11 +1,12 @@
 import { NextResponse, type NextRequest } from "next/server";
-import { getSessionDetail } from "@/lib/codex";
+import { getSessionDetail, redactSessionDetail } from "@/lib/codex";
+import { redactionEnabled } from "@/lib/redaction";
 
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
 
 export async function GET(
-  _request: NextRequest,
+  request: NextRequest,
   context: { params: Promise<{ sessionId: string }> }
 ) {
   const { sessionId } = await context.params;
@@ -18,7 +19,9 @@ export async function GET(
     if (!session) {
       return NextResponse.json({ error: "Session not found" }, { status: 404 });
     }
-    return NextResponse.json({ session });
+    return NextResponse.json({
+      session: redactionEnabled(request.nextUrl.searchParams) ? redactSessionDetail(session) : session,
+    });
   } catch (error) {
     console.error(`/api/sessions/${sessionId} error`, error);
     return NextResponse.json({ error: "Failed to load session" }, { status: 500 });
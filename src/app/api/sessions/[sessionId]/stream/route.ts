@@ -0,0 +1,105 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { openSessionTail, redactSessionUpdate } from "@/lib/codex";
+import { redactionEnabled } from "@/lib/redaction";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const POLL_INTERVAL_MS = 1000;
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ sessionId: string }> }
+) {
+  const { sessionId } = await context.params;
+  if (!sessionId) {
+    return NextResponse.json({ error: "Missing session id" }, { status: 400 });
+  }
+
+  const resumeFrom = request.headers.get("last-event-id") ?? request.nextUrl.searchParams.get("from");
+  const from = resumeFrom !== null && resumeFrom !== "" ? Number(resumeFrom) : undefined;
+  const redact = redactionEnabled(request.nextUrl.searchParams);
+
+  let tail: Awaited<ReturnType<typeof openSessionTail>>;
+  try {
+    tail = await openSessionTail(sessionId, Number.isFinite(from) ? from : undefined);
+  } catch (error) {
+    console.error(`/api/sessions/${sessionId}/stream error`, error);
+    return NextResponse.json({ error: "Failed to open session stream" }, { status: 500 });
+  }
+  if (!tail) {
+    return NextResponse.json({ error: "Session not found" }, { status: 404 });
+  }
+  const sessionTail = tail;
+
+  const encoder = new TextEncoder();
+  let closed = false;
+  let pollTimer: ReturnType<typeof setTimeout> | undefined;
+  let heartbeatTimer: ReturnType<typeof setInterval> | undefined;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          close();
+        }
+      };
+      const send = (event: string, data: unknown, id?: number) => {
+        write(`${id !== undefined ? `id: ${id}\n` : ""}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      };
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        if (pollTimer) clearTimeout(pollTimer);
+        if (heartbeatTimer) clearInterval(heartbeatTimer);
+        try {
+          controller.close();
+        } catch {
+          // already closed by the client
+        }
+      };
+
+      const poll = async () => {
+        try {
+          const update = await sessionTail.poll();
+          if (update === "reset") {
+            send("reset", { cursor: sessionTail.cursor });
+            close();
+            return;
+          }
+          if (update) {
+            send("update", redact ? redactSessionUpdate(update) : update, update.cursor);
+          }
+        } catch (error) {
+          console.error(`/api/sessions/${sessionId}/stream error`, error);
+        }
+        if (!closed) {
+          pollTimer = setTimeout(poll, POLL_INTERVAL_MS);
+        }
+      };
+
+      send("ready", { cursor: sessionTail.cursor }, sessionTail.cursor);
+      pollTimer = setTimeout(poll, POLL_INTERVAL_MS);
+      heartbeatTimer = setInterval(() => write(": keep-alive\n\n"), HEARTBEAT_INTERVAL_MS);
+      request.signal.addEventListener("abort", close);
+    },
+    cancel() {
+      closed = true;
+      if (pollTimer) clearTimeout(pollTimer);
+      if (heartbeatTimer) clearInterval(heartbeatTimer);
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
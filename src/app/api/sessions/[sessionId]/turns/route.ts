@@ -0,0 +1,28 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getSessionDetail, redactSessionDetail } from "@/lib/codex";
+import { redactionEnabled } from "@/lib/redaction";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ sessionId: string }> }
+) {
+  const { sessionId } = await context.params;
+  if (!sessionId) {
+    return NextResponse.json({ error: "Missing session id" }, { status: 400 });
+  }
+
+  try {
+    const session = await getSessionDetail(sessionId);
+    if (!session) {
+      return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    }
+    const visible = redactionEnabled(request.nextUrl.searchParams) ? redactSessionDetail(session) : session;
+    return NextResponse.json({ turns: visible.turns });
+  } catch (error) {
+    console.error(`/api/sessions/${sessionId}/turns error`, error);
+    return NextResponse.json({ error: "Failed to load turns" }, { status: 500 });
+  }
+}
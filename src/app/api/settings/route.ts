@@ -0,0 +1,34 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getViewerConfig, redactionPatternError, saveViewerConfig } from "@/lib/viewerConfig";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+export async function GET() {
+  try {
+    return NextResponse.json({ config: await getViewerConfig() });
+  } catch (error) {
+    console.error("/api/settings error", error);
+    return NextResponse.json({ error: "Failed to load settings" }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body !== "object") {
+    return NextResponse.json({ error: "Expected a JSON config" }, { status: 400 });
+  }
+  const patterns = (body as { redaction?: { patterns?: unknown } }).redaction?.patterns;
+  for (const pattern of Array.isArray(patterns) ? patterns : []) {
+    const problem = typeof pattern === "string" ? redactionPatternError(pattern) : "Patterns must be strings";
+    if (problem) {
+      return NextResponse.json({ error: `Invalid redaction pattern ${JSON.stringify(pattern)}: ${problem}` }, { status: 400 });
+    }
+  }
+  try {
+    return NextResponse.json({ config: await saveViewerConfig(body) });
+  } catch (error) {
+    console.error("/api/settings save error", error);
+    return NextResponse.json({ error: "Failed to save settings" }, { status: 500 });
+  }
+}
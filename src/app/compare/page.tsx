@@ -0,0 +1,12 @@
+import { SessionComparePage } from "@/components/dashboard/SessionComparePage";
+
+type PageProps = {
+  searchParams: Promise<{ sessions?: string }>;
+};
+
+// `/compare?sessions=<id>,<id>[,...]`; the first id is the baseline.
+export default async function Compare({ searchParams }: PageProps) {
+  const { sessions } = await searchParams;
+  const sessionIds = Array.from(new Set((sessions ?? "").split(",").map((id) => id.trim()).filter(Boolean)));
+  return <SessionComparePage sessionIds={sessionIds} />;
+}
@@ -0,0 +1,10 @@
+import { ImportedSessionPage } from "@/components/dashboard/ImportedSessionPage";
+
+type PageProps = {
+  params: Promise<{ importId: string }>;
+};
+
+export default async function ImportedSession({ params }: PageProps) {
+  const { importId } = await params;
+  return <ImportedSessionPage importId={importId} />;
+}
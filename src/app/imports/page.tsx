@@ -0,0 +1,5 @@
+import { ImportsPage } from "@/components/dashboard/ImportsPage";
+
+export default function Imports() {
+  return <ImportsPage />;
+}
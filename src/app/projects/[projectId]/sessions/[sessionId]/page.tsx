@@ -2,9 +2,13 @@ import { SessionDetailPage } from "@/components/dashboard/SessionDetailPage";
 
 type PageProps = {
   params: Promise<{ projectId: string; sessionId: string }>;
+  searchParams: Promise<{ message?: string; tool?: string }>;
 };
 
-export default async function SessionPage({ params }: PageProps) {
+export default async function SessionPage({ params, searchParams }: PageProps) {
   const { projectId, sessionId } = await params;
-  return <SessionDetailPage projectId={projectId} sessionId={sessionId} />;
+  const { message, tool } = await searchParams;
+  return (
+    <SessionDetailPage projectId={projectId} sessionId={sessionId} linkedMessageId={message} linkedToolCallId={tool} />
+  );
 }
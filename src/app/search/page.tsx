@@ -0,0 +1,10 @@
+import { SearchPage } from "@/components/dashboard/SearchPage";
+
+type PageProps = {
+  searchParams: Promise<{ q?: string; project?: string }>;
+};
+
+export default async function Search({ searchParams }: PageProps) {
+  const { q, project } = await searchParams;
+  return <SearchPage initialQuery={q ?? ""} initialProject={project ?? null} />;
+}
@@ -0,0 +1,5 @@
+import { SettingsPage } from "@/components/dashboard/SettingsPage";
+
+export default function Settings() {
+  return <SettingsPage />;
+}
@@ -0,0 +1,323 @@
+"use client";
+
+import clsx from "clsx";
+import Link from "next/link";
+import useSWR from "swr";
+import { useMemo, useState, type ReactNode } from "react";
+import { Area, AreaChart, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import type { UsageBucket, UsagePoint, UsageReport } from "@/lib/codex";
+import { formatCost } from "@/lib/formatters";
+import { ErrorBanner, Placeholder } from "@/components/ui/Feedback";
+
+const fetcher = async (url: string) => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${url}`);
+  }
+  return response.json();
+};
+
+const PROJECT_COLORS = ["#34d399", "#38bdf8", "#f472b6", "#facc15", "#a78bfa", "#fb923c", "#22d3ee", "#f87171", "#94a3b8"];
+
+const RANGES: { label: string; days: number }[] = [
+  { label: "30 days", days: 30 },
+  { label: "90 days", days: 90 },
+  { label: "1 year", days: 365 },
+];
+
+const BUCKETS: { key: UsageBucket; label: string }[] = [
+  { key: "day", label: "Daily" },
+  { key: "week", label: "Weekly" },
+  { key: "month", label: "Monthly" },
+];
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const localDate = (ms: number) => new Date(ms - new Date(ms).getTimezoneOffset() * 60 * 1000).toISOString().slice(0, 10);
+
+const rangeEndingToday = (days: number) => {
+  const now = Date.now();
+  return { from: localDate(now - (days - 1) * DAY_MS), to: localDate(now) };
+};
+
+const formatBucketLabel = (start: string, bucket: UsageBucket) =>
+  new Date(`${start}T00:00:00Z`).toLocaleDateString(undefined, {
+    timeZone: "UTC",
+    month: "short",
+    ...(bucket === "month" ? { year: "2-digit" } : { day: "numeric" }),
+  });
+
+const compactNumber = (value: number) => Intl.NumberFormat(undefined, { notation: "compact" }).format(value);
+
+// sqrt keeps a few huge days from washing out everything else.
+const intensity = (value: number, max: number) => (max ? Math.sqrt(value / max) : 0);
+
+const ToggleButton = ({ active, onClick, children }: { active: boolean; onClick: () => void; children: ReactNode }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    className={clsx(
+      "rounded-full border px-3 py-1 text-xs font-semibold transition",
+      active ? "border-white/40 bg-white/10 text-white" : "border-white/10 text-slate-400"
+    )}
+    aria-pressed={active}
+  >
+    {children}
+  </button>
+);
+
+export function AnalyticsPage() {
+  const [preset, setPreset] = useState<number | null>(90);
+  const [range, setRange] = useState(() => rangeEndingToday(90));
+  const [bucket, setBucket] = useState<UsageBucket>("day");
+  const query = new URLSearchParams({
+    from: range.from,
+    to: range.to,
+    bucket,
+    tz: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  }).toString();
+  const { data, error, isLoading } = useSWR<{ report: UsageReport }>(`/api/analytics?${query}`, fetcher, {
+    refreshInterval: 60000,
+    keepPreviousData: true,
+  });
+  const report = data?.report;
+
+  const selectPreset = (days: number) => {
+    setPreset(days);
+    setRange(rangeEndingToday(days));
+  };
+  const selectDate = (edge: "from" | "to", value: string) => {
+    if (!value) return;
+    setPreset(null);
+    setRange((current) => ({ ...current, [edge]: value }));
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-white">
+      <main className="mx-auto flex w-full max-w-6xl flex-col gap-8 px-6 py-12">
+        <nav className="flex items-center gap-2 text-sm text-slate-400">
+          <Link href="/" className="text-white hover:underline">
+            Projects
+          </Link>
+          <span>/</span>
+          <span>Analytics</span>
+        </nav>
+        <header className="flex flex-wrap items-end justify-between gap-4">
+          <div className="space-y-2">
+            <h1 className="text-4xl font-semibold">Usage over time</h1>
+            <p className="text-sm text-slate-400">Sessions count on the day they started, in your time zone.</p>
+          </div>
+          {report && (
+            <div className="rounded-2xl border border-white/10 bg-white/5 px-5 py-3 text-right text-sm text-slate-300">
+              <p>
+                {report.totals.sessions} sessions · {report.totals.totalTokens.toLocaleString()} model tokens
+              </p>
+              <p>{report.totals.billedTokens.toLocaleString()} billed</p>
+              <p className="text-amber-200">
+                {formatCost(report.totals.cost)}
+                {report.totals.unpricedSessions > 0 && (
+                  <span className="text-slate-500"> + {report.totals.unpricedSessions} sessions with unknown model</span>
+                )}
+              </p>
+            </div>
+          )}
+        </header>
+
+        <div className="flex flex-wrap items-center gap-6">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-xs uppercase tracking-[0.3em] text-slate-500">Range</span>
+            {RANGES.map((option) => (
+              <ToggleButton key={option.days} active={preset === option.days} onClick={() => selectPreset(option.days)}>
+                {option.label}
+              </ToggleButton>
+            ))}
+            <input
+              type="date"
+              value={range.from}
+              max={range.to}
+              onChange={(event) => selectDate("from", event.target.value)}
+              className="rounded-full border border-white/10 bg-transparent px-3 py-1 text-xs text-slate-200 [color-scheme:dark]"
+            />
+            <span className="text-slate-500">–</span>
+            <input
+              type="date"
+              value={range.to}
+              min={range.from}
+              onChange={(event) => selectDate("to", event.target.value)}
+              className="rounded-full border border-white/10 bg-transparent px-3 py-1 text-xs text-slate-200 [color-scheme:dark]"
+            />
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-xs uppercase tracking-[0.3em] text-slate-500">Bucket</span>
+            {BUCKETS.map((option) => (
+              <ToggleButton key={option.key} active={bucket === option.key} onClick={() => setBucket(option.key)}>
+                {option.label}
+              </ToggleButton>
+            ))}
+          </div>
+        </div>
+
+        {error && <ErrorBanner message="Unable to load usage analytics" />}
+        {isLoading && !report && <Placeholder text="Aggregating sessions..." large />}
+        {report && !report.totals.sessions && <Placeholder text="No sessions started in this range." large />}
+
+        {report && report.totals.sessions > 0 && (
+          <>
+            <section className="rounded-[32px] border border-white/5 bg-white/5 p-6">
+              <p className="text-sm font-semibold text-white">Activity calendar</p>
+              <p className="mb-4 text-xs text-slate-400">Model tokens per day.</p>
+              <CalendarHeatmap days={report.days} />
+            </section>
+
+            <section className="rounded-[32px] border border-white/5 bg-white/5 p-6">
+              <p className="text-sm font-semibold text-white">Model tokens by project</p>
+              <p className="mb-4 text-xs text-slate-400">
+                The {report.projects.length > 8 ? "eight busiest projects, the rest grouped" : "projects active in this range"}.
+              </p>
+              <ProjectUsageChart report={report} />
+            </section>
+
+            <section className="rounded-[32px] border border-white/5 bg-white/5 p-6">
+              <p className="text-sm font-semibold text-white">When sessions start</p>
+              <p className="mb-4 text-xs text-slate-400">Sessions started per weekday and hour.</p>
+              <ActivityGrid activity={report.activity} />
+            </section>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
+
+// GitHub-style grid: one column per week (Monday first), one row per weekday.
+const CalendarHeatmap = ({ days }: { days: UsagePoint[] }) => {
+  const weeks = useMemo(() => {
+    const columns: (UsagePoint | null)[][] = [];
+    days.forEach((day, index) => {
+      const weekday = (new Date(`${day.start}T00:00:00Z`).getUTCDay() + 6) % 7;
+      if (index === 0 || weekday === 0) columns.push(Array.from({ length: 7 }, () => null));
+      columns[columns.length - 1][weekday] = day;
+    });
+    return columns;
+  }, [days]);
+  const max = Math.max(0, ...days.map((day) => day.totalTokens));
+
+  return (
+    <div className="flex gap-1 overflow-x-auto pb-2">
+      <div className="mr-1 grid grid-rows-7 gap-1 text-[10px] text-slate-500">
+        {[1, 2, 3, 4, 5, 6, 0].map((weekday) => (
+          <span key={weekday} className="h-3 leading-3">
+            {weekday % 2 ? WEEKDAYS[weekday] : ""}
+          </span>
+        ))}
+      </div>
+      {weeks.map((week, column) => (
+        <div key={column} className="grid grid-rows-7 gap-1">
+          {week.map((day, row) =>
+            day ? (
+              <div
+                key={row}
+                className="h-3 w-3 rounded-sm border border-white/5"
+                style={{
+                  background: day.sessions
+                    ? `rgba(52, 211, 153, ${0.15 + 0.85 * intensity(day.totalTokens, max)})`
+                    : "rgba(255, 255, 255, 0.04)",
+                }}
+                title={`${day.start}: ${day.sessions} sessions · ${day.totalTokens.toLocaleString()} tokens · ${formatCost(day.cost)}`}
+              />
+            ) : (
+              <div key={row} className="h-3 w-3" />
+            )
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const ProjectUsageChart = ({ report }: { report: UsageReport }) => {
+  const chartData = useMemo(
+    () =>
+      report.buckets.map((point) => ({
+        label: formatBucketLabel(point.start, report.bucket),
+        cost: point.cost,
+        ...Object.fromEntries(report.projects.map((project) => [project.id, point.projects[project.id] ?? 0])),
+      })),
+    [report]
+  );
+  const names = useMemo(
+    () => new Map(report.projects.map((project) => [project.id, project.name])),
+    [report.projects]
+  );
+
+  return (
+    <div className="h-[360px] w-full">
+      <ResponsiveContainer width="100%" height="100%">
+        <AreaChart data={chartData} margin={{ left: 0, right: 20, top: 10, bottom: 10 }}>
+          <XAxis dataKey="label" stroke="#cbd5f5" tick={{ fill: "#cbd5f5" }} minTickGap={24} />
+          <YAxis stroke="#cbd5f5" tick={{ fill: "#cbd5f5" }} tickFormatter={compactNumber} width={60} />
+          <Tooltip
+            isAnimationActive={false}
+            contentStyle={{ background: "rgba(2, 6, 23, 0.9)", border: "1px solid rgba(255,255,255,0.1)", borderRadius: 12 }}
+            formatter={(value, name) => [Number(value).toLocaleString(), names.get(String(name)) ?? name]}
+            labelFormatter={(label, payload) => {
+              const cost = (payload?.[0]?.payload as { cost?: number } | undefined)?.cost;
+              return cost ? `${label} · ${formatCost(cost)}` : label;
+            }}
+          />
+          <Legend wrapperStyle={{ color: "#cbd5f5" }} formatter={(value) => names.get(String(value)) ?? value} />
+          {report.projects.map((project, index) => (
+            <Area
+              key={project.id}
+              dataKey={project.id}
+              stackId="projects"
+              type="monotone"
+              stroke={PROJECT_COLORS[index % PROJECT_COLORS.length]}
+              fill={PROJECT_COLORS[index % PROJECT_COLORS.length]}
+              fillOpacity={0.35}
+              isAnimationActive={false}
+            />
+          ))}
+        </AreaChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+const ActivityGrid = ({ activity }: { activity: number[][] }) => {
+  const max = Math.max(0, ...activity.flat());
+  return (
+    <div className="overflow-x-auto">
+      <table className="border-separate border-spacing-1 text-[10px] text-slate-500">
+        <thead>
+          <tr>
+            <th />
+            {Array.from({ length: 24 }, (_, hour) => (
+              <th key={hour} className="font-normal">
+                {hour % 3 === 0 ? hour : ""}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {[1, 2, 3, 4, 5, 6, 0].map((weekday) => (
+            <tr key={weekday}>
+              <td className="pr-2 text-right">{WEEKDAYS[weekday]}</td>
+              {activity[weekday].map((count, hour) => (
+                <td
+                  key={hour}
+                  className="h-5 w-5 rounded-sm border border-white/5"
+                  style={{
+                    background: count ? `rgba(56, 189, 248, ${0.15 + 0.85 * intensity(count, max)})` : "rgba(255, 255, 255, 0.04)",
+                  }}
+                  title={`${WEEKDAYS[weekday]} ${String(hour).padStart(2, "0")}:00 · ${count} sessions`}
+                />
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -0,0 +1,201 @@
+"use client";
+
+import clsx from "clsx";
+import { useMemo, useState } from "react";
+import type { FileChange, PatchHunk } from "@/lib/codex";
+import { formatDate } from "@/lib/formatters";
+
+type DiffMode = "unified" | "split";
+type DiffLine = PatchHunk["lines"][number];
+type SplitRow = { left?: DiffLine; right?: DiffLine };
+
+type FileGroup = {
+  path: string;
+  changes: FileChange[];
+  added: number;
+  removed: number;
+};
+
+const ACTION_STYLES: Record<FileChange["action"], string> = {
+  add: "border-emerald-400/40 text-emerald-200",
+  update: "border-sky-400/40 text-sky-200",
+  delete: "border-rose-400/40 text-rose-200",
+};
+
+const LINE_STYLES: Record<DiffLine["kind"], string> = {
+  context: "text-slate-300",
+  add: "bg-emerald-500/10 text-emerald-100",
+  remove: "bg-rose-500/10 text-rose-100",
+};
+
+const LINE_PREFIX: Record<DiffLine["kind"], string> = { context: " ", add: "+", remove: "-" };
+
+// Pairs each run of removals with the additions that follow it, so edited
+// lines sit side by side.
+const toSplitRows = (lines: DiffLine[]): SplitRow[] => {
+  const rows: SplitRow[] = [];
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+  const flush = () => {
+    for (let index = 0; index < Math.max(removed.length, added.length); index += 1) {
+      rows.push({ left: removed[index], right: added[index] });
+    }
+    removed = [];
+    added = [];
+  };
+  for (const line of lines) {
+    if (line.kind === "remove") {
+      if (added.length) flush();
+      removed.push(line);
+    } else if (line.kind === "add") {
+      added.push(line);
+    } else {
+      flush();
+      rows.push({ left: line, right: line });
+    }
+  }
+  flush();
+  return rows;
+};
+
+// Files are grouped under their final path, so a rename and later edits to the
+// moved file read as one history.
+const groupChanges = (changes: FileChange[]): FileGroup[] => {
+  const renamed = new Map<string, string>();
+  const finalPath = (filePath: string) => {
+    const seen = new Set([filePath]);
+    let current = filePath;
+    for (let next = renamed.get(current); next && !seen.has(next); next = renamed.get(current)) {
+      seen.add(next);
+      current = next;
+    }
+    return current;
+  };
+  for (const change of changes) {
+    if (change.movePath) renamed.set(change.path, change.movePath);
+  }
+
+  const groups = new Map<string, FileGroup>();
+  for (const change of changes) {
+    const key = finalPath(change.path);
+    const group = groups.get(key) ?? { path: key, changes: [], added: 0, removed: 0 };
+    group.changes.push(change);
+    group.added += change.added;
+    group.removed += change.removed;
+    groups.set(key, group);
+  }
+  return Array.from(groups.values()).sort((a, b) => a.path.localeCompare(b.path));
+};
+
+export const ChangesPanel = ({ changes }: { changes: FileChange[] }) => {
+  const [mode, setMode] = useState<DiffMode>("unified");
+  const groups = useMemo(() => groupChanges(changes), [changes]);
+  const totals = useMemo(
+    () =>
+      groups.reduce(
+        (acc, group) => ({ added: acc.added + group.added, removed: acc.removed + group.removed }),
+        { added: 0, removed: 0 }
+      ),
+    [groups]
+  );
+
+  return (
+    <div className="rounded-[32px] border border-white/5 bg-white/5 p-6">
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <p className="text-sm font-semibold text-white">Changes</p>
+          <p className="text-xs text-slate-400">
+            {groups.length} files · <span className="text-emerald-300">+{totals.added}</span>{" "}
+            <span className="text-rose-300">-{totals.removed}</span>
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {(["unified", "split"] as DiffMode[]).map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setMode(option)}
+              className={clsx(
+                "rounded-full border px-3 py-1 text-xs font-semibold capitalize transition",
+                mode === option ? "border-white/40 bg-white/10 text-white" : "border-white/10 text-slate-400"
+              )}
+              aria-pressed={mode === option}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="space-y-3">
+        {groups.map((group) => (
+          <details key={group.path} className="rounded-2xl border border-white/5 bg-slate-950/40">
+            <summary className="flex cursor-pointer flex-wrap items-center justify-between gap-2 px-4 py-3 text-sm">
+              <span className="break-all font-mono text-white">{group.path}</span>
+              <span className="flex items-center gap-3 text-xs">
+                <span className="text-slate-500">{group.changes.length} edits</span>
+                <span className="text-emerald-300">+{group.added}</span>
+                <span className="text-rose-300">-{group.removed}</span>
+              </span>
+            </summary>
+            <div className="space-y-4 border-t border-white/5 px-4 py-3">
+              {group.changes.map((change) => (
+                <div key={change.id} className="space-y-2">
+                  <div className="flex flex-wrap items-center gap-2 text-xs text-slate-400">
+                    <span
+                      className={clsx("rounded-full border px-2 py-0.5 uppercase tracking-wide", ACTION_STYLES[change.action])}
+                    >
+                      {change.action}
+                    </span>
+                    {change.movePath && (
+                      <span className="font-mono">
+                        {change.path} → {change.movePath}
+                      </span>
+                    )}
+                    {change.timestamp && <span>{formatDate(change.timestamp)}</span>}
+                  </div>
+                  {change.hunks.map((hunk, index) => (
+                    <div key={index} className="overflow-x-auto rounded-xl border border-white/5 font-mono text-xs">
+                      {hunk.header && <div className="bg-white/5 px-3 py-1 text-slate-500">@@ {hunk.header}</div>}
+                      {mode === "unified" ? <UnifiedHunk hunk={hunk} /> : <SplitHunk hunk={hunk} />}
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </details>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const UnifiedHunk = ({ hunk }: { hunk: PatchHunk }) => (
+  <div>
+    {hunk.lines.map((line, index) => (
+      <div key={index} className={clsx("whitespace-pre px-3", LINE_STYLES[line.kind])}>
+        {LINE_PREFIX[line.kind]} {line.text}
+      </div>
+    ))}
+  </div>
+);
+
+const SplitHunk = ({ hunk }: { hunk: PatchHunk }) => (
+  <div className="grid grid-cols-2">
+    {toSplitRows(hunk.lines).map((row, index) => (
+      <div key={index} className="contents">
+        {[row.left, row.right].map((line, side) => (
+          <div
+            key={side}
+            className={clsx(
+              "min-h-[1.25rem] whitespace-pre px-3",
+              side === 0 && "border-r border-white/5",
+              line ? LINE_STYLES[line.kind] : "bg-white/[0.02]"
+            )}
+          >
+            {line ? `${LINE_PREFIX[line.kind]} ${line.text}` : ""}
+          </div>
+        ))}
+      </div>
+    ))}
+  </div>
+);
@@ -0,0 +1,151 @@
+"use client";
+
+import clsx from "clsx";
+import Link from "next/link";
+import { useState } from "react";
+import type { CommandReport, ShellCommand } from "@/lib/codex";
+import { formatDate, formatPreciseDuration } from "@/lib/formatters";
+import { shellStatusLabel } from "@/lib/shell";
+
+type View = "failures" | "slowest" | "repeated";
+
+const VIEWS: { key: View; label: string }[] = [
+  { key: "failures", label: "Failures" },
+  { key: "slowest", label: "Slowest" },
+  { key: "repeated", label: "Most repeated" },
+];
+
+const CommandText = ({ command }: { command: string }) => (
+  <span className="line-clamp-2 break-all font-mono text-xs text-white" title={command}>
+    {command}
+  </span>
+);
+
+export const CommandTable = ({
+  report,
+  projectId,
+  onSelectCommand,
+}: {
+  report: CommandReport;
+  projectId?: string;
+  onSelectCommand?: (command: ShellCommand) => void;
+}) => {
+  const [view, setView] = useState<View>(report.failed ? "failures" : "slowest");
+  const runs = view === "failures" ? report.failures : report.slowest;
+
+  const sessionCell = (command: ShellCommand) =>
+    projectId && command.sessionId ? (
+      <Link
+        href={`/projects/${projectId}/sessions/${command.sessionId}?tool=${encodeURIComponent(command.callId)}`}
+        className="line-clamp-1 text-xs text-slate-400 hover:text-white hover:underline"
+        onClick={(event) => event.stopPropagation()}
+      >
+        {command.sessionPreview ?? command.sessionId}
+      </Link>
+    ) : null;
+
+  return (
+    <div className="rounded-[32px] border border-white/5 bg-white/5 p-6">
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <p className="text-sm font-semibold text-white">Shell commands</p>
+          <p className="text-xs text-slate-400">
+            {report.total} runs · <span className={report.failed ? "text-rose-300" : undefined}>{report.failed} failed</span>
+            {report.timedOut > 0 && <> · {report.timedOut} timed out</>}
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {VIEWS.map((option) => (
+            <button
+              key={option.key}
+              type="button"
+              onClick={() => setView(option.key)}
+              className={clsx(
+                "rounded-full border px-3 py-1 text-xs font-semibold transition",
+                view === option.key ? "border-white/40 bg-white/10 text-white" : "border-white/10 text-slate-400"
+              )}
+              aria-pressed={view === option.key}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="max-h-[420px] overflow-y-auto">
+        {view === "repeated" ? (
+          <table className="w-full text-left text-sm">
+            <thead className="text-xs uppercase tracking-[0.2em] text-slate-500">
+              <tr>
+                <th className="py-2 pr-4 font-normal">Command</th>
+                <th className="py-2 pr-4 text-right font-normal">Runs</th>
+                <th className="py-2 pr-4 text-right font-normal">Failed</th>
+                <th className="py-2 pr-4 text-right font-normal">Total time</th>
+                {projectId && <th className="py-2 text-right font-normal">Sessions</th>}
+              </tr>
+            </thead>
+            <tbody>
+              {report.repeated.map((group) => (
+                <tr key={group.command} className="border-t border-white/5 text-slate-300">
+                  <td className="py-2 pr-4">
+                    <CommandText command={group.command} />
+                  </td>
+                  <td className="py-2 pr-4 text-right">{group.runs}</td>
+                  <td className={clsx("py-2 pr-4 text-right", group.failures > 0 && "text-rose-300")}>
+                    {group.failures || "–"}
+                  </td>
+                  <td className="py-2 pr-4 text-right">{formatPreciseDuration(group.totalDurationMs)}</td>
+                  {projectId && <td className="py-2 text-right">{group.sessionCount}</td>}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <table className="w-full text-left text-sm">
+            <thead className="text-xs uppercase tracking-[0.2em] text-slate-500">
+              <tr>
+                <th className="py-2 pr-4 font-normal">Command</th>
+                <th className="py-2 pr-4 text-right font-normal">Status</th>
+                <th className="py-2 pr-4 text-right font-normal">Duration</th>
+                <th className="py-2 text-right font-normal">Ran</th>
+              </tr>
+            </thead>
+            <tbody>
+              {runs.map((command) => (
+                <tr
+                  key={`${command.sessionId ?? ""}:${command.callId}`}
+                  className={clsx(
+                    "border-t border-white/5 text-slate-300 transition",
+                    onSelectCommand && "cursor-pointer hover:bg-white/5"
+                  )}
+                  onClick={() => onSelectCommand?.(command)}
+                >
+                  <td className="py-2 pr-4">
+                    <CommandText command={command.command} />
+                    {sessionCell(command)}
+                  </td>
+                  <td className={clsx("py-2 pr-4 text-right text-xs", command.failed ? "text-rose-300" : "text-emerald-200")}>
+                    {shellStatusLabel(command)}
+                  </td>
+                  <td className="py-2 pr-4 text-right">
+                    {formatPreciseDuration(command.durationMs)}
+                    {command.timeoutMs !== undefined && (
+                      <span className="block text-xs text-slate-500">limit {formatPreciseDuration(command.timeoutMs)}</span>
+                    )}
+                  </td>
+                  <td className="py-2 text-right text-xs text-slate-400">
+                    {command.startedAt ? formatDate(command.startedAt) : "–"}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        {(view === "repeated" ? report.repeated : runs).length === 0 && (
+          <p className="py-4 text-center text-sm text-slate-500">
+            {view === "failures" ? "No failed commands." : view === "repeated" ? "No command ran twice." : "No timings recorded."}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,29 @@
+"use client";
+
+const OPTIONS = [
+  { format: "md", label: "Markdown", hint: "For PRs and issues" },
+  { format: "html", label: "HTML", hint: "Single offline file with chart" },
+  { format: "json", label: "JSON", hint: "Full parsed session" },
+];
+
+// `href` is the export route without a query, e.g. `/api/sessions/<id>/export`.
+export const ExportMenu = ({ href }: { href: string }) => (
+  <details className="relative inline-block text-left">
+    <summary className="cursor-pointer list-none rounded-full border border-white/10 px-3 py-1 text-xs font-semibold text-slate-300 transition hover:border-white/30 hover:text-white">
+      Download ▾
+    </summary>
+    <div className="absolute right-0 z-20 mt-2 w-56 rounded-2xl border border-white/10 bg-slate-950/95 p-2 shadow-xl">
+      {OPTIONS.map((option) => (
+        <a
+          key={option.format}
+          href={`${href}?format=${option.format}`}
+          download
+          className="block rounded-xl px-3 py-2 text-sm text-white transition hover:bg-white/5"
+        >
+          {option.label}
+          <span className="block text-xs text-slate-500">{option.hint}</span>
+        </a>
+      ))}
+    </div>
+  </details>
+);
@@ -0,0 +1,78 @@
+"use client";
+
+import { useMemo } from "react";
+import type { FileActivity } from "@/lib/codex";
+import { formatDate } from "@/lib/formatters";
+
+type FileRow = {
+  path: string;
+  reads: number;
+  writes: number;
+  deletes: number;
+  lastAt?: string;
+};
+
+const displayPath = (filePath: string, root?: string) =>
+  root && filePath.startsWith(`${root}/`) ? filePath.slice(root.length + 1) : filePath;
+
+export const FileActivityList = ({
+  activity,
+  root,
+  onSelectTimestamp,
+}: {
+  activity: FileActivity[];
+  root?: string;
+  onSelectTimestamp: (timestamp: number) => void;
+}) => {
+  const rows = useMemo(() => {
+    const map = new Map<string, FileRow>();
+    for (const item of activity) {
+      const row = map.get(item.path) ?? { path: item.path, reads: 0, writes: 0, deletes: 0 };
+      if (item.action === "read") row.reads += 1;
+      if (item.action === "write") row.writes += 1;
+      if (item.action === "delete") row.deletes += 1;
+      if (item.timestamp && (!row.lastAt || item.timestamp > row.lastAt)) row.lastAt = item.timestamp;
+      map.set(item.path, row);
+    }
+    return Array.from(map.values()).sort((a, b) => (a.lastAt ?? "") < (b.lastAt ?? "") ? 1 : -1);
+  }, [activity]);
+
+  return (
+    <div className="rounded-[32px] border border-white/5 bg-white/5 p-6">
+      <div className="mb-4 flex items-center justify-between">
+        <p className="text-sm font-semibold text-white">Files touched</p>
+        <p className="text-xs text-slate-400">{rows.length} files</p>
+      </div>
+      <div className="max-h-[360px] overflow-y-auto">
+        <table className="w-full text-left text-sm">
+          <thead className="text-xs uppercase tracking-[0.2em] text-slate-500">
+            <tr>
+              <th className="py-2 pr-4 font-normal">Path</th>
+              <th className="py-2 pr-4 text-right font-normal">Reads</th>
+              <th className="py-2 pr-4 text-right font-normal">Writes</th>
+              <th className="py-2 pr-4 text-right font-normal">Deletes</th>
+              <th className="py-2 text-right font-normal">Last touched</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr
+                key={row.path}
+                className="cursor-pointer border-t border-white/5 text-slate-300 transition hover:bg-white/5"
+                onClick={() => row.lastAt && onSelectTimestamp(new Date(row.lastAt).getTime())}
+              >
+                <td className="break-all py-2 pr-4 font-mono text-xs text-white" title={row.path}>
+                  {displayPath(row.path, root)}
+                </td>
+                <td className="py-2 pr-4 text-right">{row.reads || "–"}</td>
+                <td className="py-2 pr-4 text-right text-emerald-200">{row.writes || "–"}</td>
+                <td className="py-2 pr-4 text-right text-rose-200">{row.deletes || "–"}</td>
+                <td className="py-2 text-right text-xs text-slate-400">{row.lastAt ? formatDate(row.lastAt) : "–"}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,56 @@
+"use client";
+
+import Link from "next/link";
+import useSWR from "swr";
+import { useState } from "react";
+import type { SessionDetail } from "@/lib/codex";
+import { ErrorBanner, Placeholder } from "@/components/ui/Feedback";
+import { RevealSecretsToggle } from "@/components/ui/RevealSecretsToggle";
+import { SessionDetailView } from "./SessionDetailView";
+
+const fetcher = async (url: string) => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${url}`);
+  }
+  return response.json();
+};
+
+// Imported rollouts are static files, so there is no live stream to follow.
+export function ImportedSessionPage({ importId }: { importId: string }) {
+  const [revealSecrets, setRevealSecrets] = useState(false);
+  const { data, error, isLoading, isValidating } = useSWR<{ session: SessionDetail }>(
+    `/api/imports/${importId}${revealSecrets ? "?redact=off" : ""}`,
+    fetcher,
+    { revalidateOnFocus: false }
+  );
+  const detail = data?.session ?? null;
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-white">
+      <main className="mx-auto flex w-full max-w-[1600px] flex-col gap-6 px-6 py-12">
+        <nav className="flex flex-wrap items-center gap-2 text-sm text-slate-400">
+          <Link href="/" className="text-white hover:underline">
+            Projects
+          </Link>
+          <span>/</span>
+          <Link href="/imports" className="text-white hover:underline">
+            Imported sessions
+          </Link>
+          <span>/</span>
+          <span className="break-all text-slate-400">{detail?.summary.relativePath ?? "Session"}</span>
+          <RevealSecretsToggle revealed={revealSecrets} onChange={setRevealSecrets} className="ml-auto" />
+        </nav>
+        {error && <ErrorBanner message="Unable to load the imported session" />}
+        {isLoading && !detail && <Placeholder text="Loading session..." large />}
+        {detail && (
+          <SessionDetailView
+            detail={detail}
+            refreshing={isValidating}
+            exportHref={`/api/imports/${importId}/export`}
+          />
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+"use client";
+
+import clsx from "clsx";
+import Link from "next/link";
+import useSWR from "swr";
+import { useRef, useState } from "react";
+import type { ImportedSession } from "@/lib/imports";
+import { formatBytes, formatCost, formatRelative } from "@/lib/formatters";
+import { ErrorBanner, Placeholder } from "@/components/ui/Feedback";
+
+const fetcher = async (url: string) => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${url}`);
+  }
+  return response.json();
+};
+
+export function ImportsPage() {
+  const { data, error, isLoading, mutate } = useSWR<{ imports: ImportedSession[] }>("/api/imports", fetcher, {
+    revalidateOnFocus: false,
+  });
+  const [dragging, setDragging] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [uploadErrors, setUploadErrors] = useState<string[]>([]);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const imports = data?.imports ?? [];
+
+  const upload = async (files: File[]) => {
+    if (!files.length) return;
+    const form = new FormData();
+    files.forEach((file) => form.append("file", file));
+    setUploading(true);
+    setUploadErrors([]);
+    try {
+      const response = await fetch("/api/imports", { method: "POST", body: form });
+      const body = (await response.json().catch(() => ({}))) as { errors?: string[]; error?: string };
+      setUploadErrors(response.ok ? body.errors ?? [] : [body.error ?? "Upload failed"]);
+      await mutate();
+    } catch {
+      setUploadErrors(["Upload failed"]);
+    } finally {
+      setUploading(false);
+      if (inputRef.current) inputRef.current.value = "";
+    }
+  };
+
+  const remove = async (id: string) => {
+    const response = await fetch(`/api/imports/${id}`, { method: "DELETE" });
+    if (!response.ok) {
+      setUploadErrors(["Unable to delete the import"]);
+      return;
+    }
+    await mutate((current) => current && { imports: current.imports.filter((entry) => entry.id !== id) }, {
+      revalidate: false,
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-white">
+      <main className="mx-auto flex w-full max-w-6xl flex-col gap-8 px-6 py-12">
+        <nav className="flex items-center gap-2 text-sm text-slate-400">
+          <Link href="/" className="text-white hover:underline">
+            Projects
+          </Link>
+          <span>/</span>
+          <span>Imported sessions</span>
+        </nav>
+        <header className="space-y-2">
+          <h1 className="text-4xl font-semibold">Imported sessions</h1>
+          <p className="text-sm text-slate-400">
+            Rollouts uploaded here stay in a scratch area: they are not added to projects, search or stats.
+          </p>
+        </header>
+
+        <div
+          onDragOver={(event) => {
+            event.preventDefault();
+            setDragging(true);
+          }}
+          onDragLeave={() => setDragging(false)}
+          onDrop={(event) => {
+            event.preventDefault();
+            setDragging(false);
+            void upload(Array.from(event.dataTransfer.files));
+          }}
+          className={clsx(
+            "flex flex-col items-center gap-3 rounded-3xl border border-dashed px-6 py-10 text-center text-sm transition",
+            dragging ? "border-emerald-300/60 bg-emerald-400/10 text-emerald-100" : "border-white/10 bg-white/5 text-slate-300"
+          )}
+        >
+          <p>Drop Codex or Claude Code rollout files (.jsonl or .jsonl.gz) here</p>
+          <button
+            type="button"
+            onClick={() => inputRef.current?.click()}
+            disabled={uploading}
+            className="rounded-full border border-white/20 px-4 py-1.5 text-xs font-semibold text-white transition hover:border-white/40 disabled:opacity-50"
+          >
+            {uploading ? "Importing..." : "Choose files"}
+          </button>
+          <input
+            ref={inputRef}
+            type="file"
+            multiple
+            accept=".jsonl,.gz,application/gzip"
+            className="hidden"
+            onChange={(event) => void upload(Array.from(event.target.files ?? []))}
+          />
+        </div>
+
+        {uploadErrors.map((message) => (
+          <ErrorBanner key={message} message={message} />
+        ))}
+        {error && <ErrorBanner message="Unable to load imported sessions" />}
+        {isLoading && !imports.length && <Placeholder text="Loading imports..." large />}
+        {!isLoading && !imports.length && !error && <Placeholder text="Nothing imported yet." large />}
+
+        {!!imports.length && (
+          <div className="grid gap-4 md:grid-cols-2">
+            {imports.map((entry) => (
+              <div
+                key={entry.id}
+                className="flex flex-col rounded-3xl border border-white/5 bg-white/5 p-5 transition hover:border-white/20"
+              >
+                <div className="flex items-center justify-between text-xs uppercase tracking-[0.3em] text-slate-500">
+                  <span>{entry.summary.agent}</span>
+                  <span>imported {formatRelative(entry.importedAt)}</span>
+                </div>
+                <Link href={`/imports/${entry.id}`} className="mt-3 text-lg font-semibold text-white hover:underline">
+                  <span className="line-clamp-2">{entry.summary.preview || entry.fileName}</span>
+                </Link>
+                <p className="break-all text-sm text-slate-400">
+                  {entry.fileName} · {entry.summary.projectPath || entry.summary.projectName}
+                </p>
+                <div className="mt-4 flex flex-wrap items-center gap-3 text-sm text-slate-300">
+                  <span>{formatBytes(entry.size)}</span>
+                  <span>{entry.summary.totalTokens.toLocaleString()} tokens</span>
+                  <span className="text-amber-200">{formatCost(entry.summary.cost)}</span>
+                  <button
+                    type="button"
+                    onClick={() => void remove(entry.id)}
+                    className="ml-auto rounded-full border border-white/10 px-3 py-1 text-xs text-slate-400 transition hover:border-rose-400/60 hover:text-rose-200"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
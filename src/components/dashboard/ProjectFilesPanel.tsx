@@ -0,0 +1,208 @@
+"use client";
+
+import clsx from "clsx";
+import Link from "next/link";
+import { useMemo, useState } from "react";
+import type { ProjectFileStat } from "@/lib/codex";
+import { formatRelative } from "@/lib/formatters";
+import { Placeholder } from "@/components/ui/Feedback";
+
+type SortKey = "touches" | "writes" | "reads" | "sessions" | "name";
+
+type TreeNode = {
+  name: string;
+  path: string;
+  reads: number;
+  writes: number;
+  deletes: number;
+  sessionIds: Set<string>;
+  lastAt?: string;
+  children: Map<string, TreeNode>;
+  file?: ProjectFileStat;
+};
+
+const SORT_OPTIONS: { key: SortKey; label: string }[] = [
+  { key: "touches", label: "Activity" },
+  { key: "writes", label: "Writes" },
+  { key: "reads", label: "Reads" },
+  { key: "sessions", label: "Sessions" },
+  { key: "name", label: "Name" },
+];
+
+const touches = (node: { reads: number; writes: number; deletes: number }) => node.reads + node.writes + node.deletes;
+
+const createNode = (name: string, path: string): TreeNode => ({
+  name,
+  path,
+  reads: 0,
+  writes: 0,
+  deletes: 0,
+  sessionIds: new Set(),
+  children: new Map(),
+});
+
+function buildTree(files: ProjectFileStat[]): TreeNode {
+  const root = createNode("", "");
+  for (const file of files) {
+    const segments = file.path.split("/");
+    if (file.path.startsWith("/")) segments[0] = "/";
+    let node = root;
+    const visit = (target: TreeNode) => {
+      target.reads += file.reads;
+      target.writes += file.writes;
+      target.deletes += file.deletes;
+      file.sessions.forEach((session) => target.sessionIds.add(session.sessionId));
+      if (file.lastAt && (!target.lastAt || file.lastAt > target.lastAt)) target.lastAt = file.lastAt;
+    };
+    visit(root);
+    segments.filter(Boolean).forEach((segment, index, all) => {
+      const path = all.slice(0, index + 1).join("/").replace(/^\/\//, "/");
+      const child = node.children.get(segment) ?? createNode(segment, path);
+      node.children.set(segment, child);
+      visit(child);
+      node = child;
+    });
+    node.file = file;
+  }
+  return root;
+}
+
+// Folds directories with a single subdirectory into one row, like `src/lib`.
+function compact(node: TreeNode): TreeNode {
+  let current = node;
+  while (!current.file && current.children.size === 1) {
+    const [child] = Array.from(current.children.values());
+    if (child.file) break;
+    current = { ...child, name: current.name === "/" ? `/${child.name}` : `${current.name}/${child.name}` };
+  }
+  return current;
+}
+
+const sortValue = (node: TreeNode, key: SortKey) => {
+  if (key === "writes") return node.writes + node.deletes;
+  if (key === "reads") return node.reads;
+  if (key === "sessions") return node.sessionIds.size;
+  return touches(node);
+};
+
+export const ProjectFilesPanel = ({ projectId, files }: { projectId: string; files: ProjectFileStat[] }) => {
+  const [sortKey, setSortKey] = useState<SortKey>("touches");
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [expandedFile, setExpandedFile] = useState<string | null>(null);
+  const tree = useMemo(() => buildTree(files), [files]);
+  const maxTouches = useMemo(() => Math.max(1, ...files.map(touches)), [files]);
+
+  const sortChildren = (node: TreeNode) =>
+    Array.from(node.children.values())
+      .map(compact)
+      .sort((a, b) =>
+        sortKey === "name" ? a.name.localeCompare(b.name) : sortValue(b, sortKey) - sortValue(a, sortKey)
+      );
+
+  const toggle = (path: string) =>
+    setCollapsed((current) => {
+      const next = new Set(current);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+
+  const renderNode = (node: TreeNode, depth: number): React.ReactNode => {
+    const isDirectory = !node.file;
+    const open = isDirectory && !collapsed.has(node.path);
+    const heat = touches(node) / maxTouches;
+    return (
+      <div key={node.path}>
+        <button
+          type="button"
+          onClick={() => (isDirectory ? toggle(node.path) : setExpandedFile(expandedFile === node.path ? null : node.path))}
+          className="grid w-full grid-cols-[minmax(0,1fr)_160px_64px_64px_64px_96px] items-center gap-3 rounded-lg px-2 py-1.5 text-left text-sm transition hover:bg-white/5"
+        >
+          <span className="truncate font-mono text-xs" style={{ paddingLeft: depth * 14 }} title={node.path}>
+            <span className="mr-1 text-slate-500">{isDirectory ? (open ? "▾" : "▸") : "·"}</span>
+            <span className={isDirectory ? "text-slate-300" : "text-white"}>{node.name}</span>
+          </span>
+          <span className="flex h-2 overflow-hidden rounded-full bg-white/5">
+            {!isDirectory && (
+              <>
+                <span className="bg-sky-400/70" style={{ width: `${(node.reads / maxTouches) * 100}%` }} />
+                <span
+                  className="bg-emerald-400/80"
+                  style={{ width: `${((node.writes + node.deletes) / maxTouches) * 100}%` }}
+                />
+              </>
+            )}
+            {isDirectory && <span className="bg-slate-400/40" style={{ width: `${Math.min(1, heat) * 100}%` }} />}
+          </span>
+          <span className="text-right text-sky-200">{node.reads || "–"}</span>
+          <span className="text-right text-emerald-200">{node.writes + node.deletes || "–"}</span>
+          <span className="text-right text-slate-300">{node.sessionIds.size}</span>
+          <span className="text-right text-xs text-slate-500">{node.lastAt ? formatRelative(node.lastAt) : "–"}</span>
+        </button>
+        {node.file && expandedFile === node.path && (
+          <div className="mb-2 space-y-1 rounded-xl border border-white/5 bg-slate-950/40 p-3" style={{ marginLeft: depth * 14 + 16 }}>
+            {node.file.sessions
+              .slice()
+              .sort((a, b) => ((a.lastAt ?? "") < (b.lastAt ?? "") ? 1 : -1))
+              .map((session) => (
+                <Link
+                  key={session.sessionId}
+                  href={`/projects/${projectId}/sessions/${session.sessionId}`}
+                  className="flex items-center justify-between gap-3 rounded-lg px-2 py-1 text-xs text-slate-300 transition hover:bg-white/5 hover:text-white"
+                >
+                  <span className="truncate">{session.preview}</span>
+                  <span className="shrink-0 text-slate-500">
+                    {session.reads} reads · {session.writes + session.deletes} writes
+                    {session.lastAt && ` · ${formatRelative(session.lastAt)}`}
+                  </span>
+                </Link>
+              ))}
+          </div>
+        )}
+        {open && sortChildren(node).map((child) => renderNode(child, depth + 1))}
+      </div>
+    );
+  };
+
+  if (!files.length) return <Placeholder text="No file activity recorded for this project yet." />;
+
+  return (
+    <div className="rounded-3xl border border-white/5 bg-white/5 p-5">
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+        <p className="text-sm text-slate-400">
+          {files.length} files · <span className="text-sky-200">reads</span> and{" "}
+          <span className="text-emerald-200">writes</span> across {tree.sessionIds.size} sessions
+        </p>
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs uppercase tracking-[0.3em] text-slate-500">Sort</span>
+          {SORT_OPTIONS.map((option) => (
+            <button
+              key={option.key}
+              type="button"
+              onClick={() => setSortKey(option.key)}
+              className={clsx(
+                "rounded-full border px-3 py-1 text-xs font-semibold transition",
+                sortKey === option.key ? "border-white/40 bg-white/10 text-white" : "border-white/10 text-slate-400"
+              )}
+              aria-pressed={sortKey === option.key}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="grid grid-cols-[minmax(0,1fr)_160px_64px_64px_64px_96px] gap-3 px-2 pb-2 text-xs uppercase tracking-[0.2em] text-slate-500">
+        <span>Path</span>
+        <span>Heat</span>
+        <span className="text-right">Reads</span>
+        <span className="text-right">Writes</span>
+        <span className="text-right">Sessions</span>
+        <span className="text-right">Last</span>
+      </div>
+      <div className="max-h-[640px] overflow-y-auto">{sortChildren(tree).map((node) => renderNode(node, 0))}</div>
+    </div>
+  );
+};
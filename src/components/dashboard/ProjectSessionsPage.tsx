@@ -1,11 +1,16 @@
 "use client";
 
+import clsx from "clsx";
 import Link from "next/link";
 import useSWR from "swr";
-import { useMemo } from "react";
-import type { ProjectSummary, SessionSummary } from "@/lib/codex";
-import { formatDate, formatRelative } from "@/lib/formatters";
+import { useMemo, useState } from "react";
+import type { CommandReport, ProjectFileStat, ProjectSummary, SessionConfig, SessionSource, SessionSummary } from "@/lib/codex";
+import { formatCost, formatDate, formatRelative } from "@/lib/formatters";
 import { ErrorBanner, Placeholder } from "@/components/ui/Feedback";
+import { FilterPills } from "@/components/ui/FilterPills";
+import { CommandTable } from "./CommandTable";
+import { ProjectFilesPanel } from "./ProjectFilesPanel";
+import { SearchBox } from "./SearchBox";
 
 const fetcher = async (url: string) => {
   const response = await fetch(url);
@@ -19,27 +24,99 @@ interface Props {
   projectId: string;
 }
 
+type ConfigFilterKey = "model" | "approvalPolicy" | "sandbox";
+
+type Tab = "sessions" | "files" | "commands";
+
+const TABS: { key: Tab; label: string }[] = [
+  { key: "sessions", label: "Sessions" },
+  { key: "files", label: "Files" },
+  { key: "commands", label: "Commands" },
+];
+
+const CONFIG_FILTERS: { key: ConfigFilterKey; label: string }[] = [
+  { key: "model", label: "Model" },
+  { key: "approvalPolicy", label: "Approval" },
+  { key: "sandbox", label: "Sandbox" },
+];
+
+const configValues = (sessions: SessionSummary[], key: keyof SessionConfig) =>
+  Array.from(new Set(sessions.map((session) => session.config[key]).filter((value): value is string => Boolean(value)))).sort();
+
 export function ProjectSessionsPage({ projectId }: Props) {
-  const { data: projectsData } = useSWR<{ projects: ProjectSummary[] }>("/api/projects", fetcher, {
-    refreshInterval: 30000,
-  });
+  const [source, setSource] = useState<string | null>(null);
+  const [archived, setArchived] = useState<string | null>(null);
+  const [configFilter, setConfigFilter] = useState<Partial<Record<ConfigFilterKey, string | null>>>({});
+  const [tab, setTab] = useState<Tab>("sessions");
+  // Sessions picked for /compare, in the order they were picked.
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const { data: projectsData } = useSWR<{ projects: ProjectSummary[]; sources: SessionSource[] }>(
+    "/api/projects",
+    fetcher,
+    { refreshInterval: 30000 }
+  );
+  const query = new URLSearchParams({
+    ...(source ? { source } : {}),
+    ...(archived ? { archived } : {}),
+  }).toString();
+  const sessionsKey = `/api/projects/${projectId}/sessions${query ? `?${query}` : ""}`;
   const {
     data: sessionsData,
     error,
     isLoading,
-  } = useSWR<{ sessions: SessionSummary[] }>(`/api/projects/${projectId}/sessions`, fetcher, {
+  } = useSWR<{ sessions: SessionSummary[] }>(sessionsKey, fetcher, {
     refreshInterval: 12000,
+    keepPreviousData: true,
   });
 
+  const {
+    data: filesData,
+    error: filesError,
+    isLoading: filesLoading,
+  } = useSWR<{ files: ProjectFileStat[] }>(
+    tab === "files" ? `/api/projects/${projectId}/files${query ? `?${query}` : ""}` : null,
+    fetcher,
+    { refreshInterval: 60000, keepPreviousData: true }
+  );
+
+  const {
+    data: commandsData,
+    error: commandsError,
+    isLoading: commandsLoading,
+  } = useSWR<{ report: CommandReport }>(
+    tab === "commands" ? `/api/projects/${projectId}/commands${query ? `?${query}` : ""}` : null,
+    fetcher,
+    { refreshInterval: 60000, keepPreviousData: true }
+  );
+
   const project = useMemo(
     () => projectsData?.projects.find((item) => item.id === projectId),
     [projectsData, projectId]
   );
 
+  const projectSources = project?.sources ?? [];
+
+  const allSessions = useMemo(() => sessionsData?.sessions ?? [], [sessionsData]);
+
   const sessions = useMemo(() => {
-    const raw = sessionsData?.sessions ?? [];
-    return [...raw].sort((a, b) => (a.lastActivityAt < b.lastActivityAt ? 1 : -1));
-  }, [sessionsData]);
+    const filtered = allSessions.filter((session) =>
+      CONFIG_FILTERS.every(({ key }) => !configFilter[key] || session.config[key] === configFilter[key])
+    );
+    return filtered.sort((a, b) => (a.lastActivityAt < b.lastActivityAt ? 1 : -1));
+  }, [allSessions, configFilter]);
+
+  const configOptions = useMemo(
+    () =>
+      CONFIG_FILTERS.map((filter) => ({ ...filter, values: configValues(allSessions, filter.key) })).filter(
+        (filter) => filter.values.length > 1
+      ),
+    [allSessions]
+  );
+
+  const toggleCompare = (sessionId: string) =>
+    setCompareIds((current) =>
+      current.includes(sessionId) ? current.filter((id) => id !== sessionId) : [...current, sessionId]
+    );
 
   return (
     <div className="min-h-screen bg-slate-950 text-white">
@@ -57,6 +134,7 @@ export function ProjectSessionsPage({ projectId }: Props) {
             <div>
               <h1 className="text-3xl font-semibold">{project?.name ?? "Project sessions"}</h1>
               <p className="text-sm text-slate-400">Step 2 · Choose a session to inspect in detail.</p>
+              <SearchBox projectId={projectId} className="mt-3 w-72" />
             </div>
             {project && (
               <div className="rounded-2xl border border-white/10 bg-white/5 px-5 py-3 text-right text-sm text-slate-300">
@@ -65,18 +143,106 @@ export function ProjectSessionsPage({ projectId }: Props) {
                 <p>
                   {project.totalTokens.toLocaleString()} model · {project.billedTokens.toLocaleString()} billed
                 </p>
+                <p className="text-amber-200">
+                  {formatCost(project.cost)}
+                  {project.unpricedSessionCount > 0 && (
+                    <span className="text-slate-500"> + {project.unpricedSessionCount} with unknown model</span>
+                  )}
+                </p>
               </div>
             )}
           </div>
         </header>
 
-        {error && <ErrorBanner message="Unable to load sessions" />}
+        <div className="flex gap-2 border-b border-white/5">
+          {TABS.map((item) => (
+            <button
+              key={item.key}
+              type="button"
+              onClick={() => setTab(item.key)}
+              className={clsx(
+                "-mb-px border-b-2 px-4 py-2 text-sm font-semibold transition",
+                tab === item.key ? "border-emerald-300 text-white" : "border-transparent text-slate-400 hover:text-white"
+              )}
+              aria-pressed={tab === item.key}
+            >
+              {item.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-6">
+          {projectSources.length > 1 && (
+            <FilterPills
+              label="Source"
+              options={projectSources.map((label) => ({ value: label, label }))}
+              value={source}
+              onChange={setSource}
+            />
+          )}
+          <FilterPills
+            label="Archived"
+            options={[{ value: "hide", label: "Hide" }]}
+            value={archived}
+            onChange={setArchived}
+            allLabel="Show"
+          />
+          {tab === "sessions" &&
+            configOptions.map((filter) => (
+              <FilterPills
+                key={filter.key}
+                label={filter.label}
+                options={filter.values.map((value) => ({ value, label: value }))}
+                value={configFilter[filter.key] ?? null}
+                onChange={(value) => setConfigFilter((current) => ({ ...current, [filter.key]: value }))}
+              />
+            ))}
+        </div>
+
+        {tab === "files" && (
+          <>
+            {filesError && <ErrorBanner message="Unable to load file activity" />}
+            {filesLoading && !filesData && <Placeholder text="Reading tool calls across sessions..." />}
+            {filesData && <ProjectFilesPanel projectId={projectId} files={filesData.files} />}
+          </>
+        )}
+
+        {tab === "commands" && (
+          <>
+            {commandsError && <ErrorBanner message="Unable to load shell commands" />}
+            {commandsLoading && !commandsData && <Placeholder text="Reading shell calls across sessions..." />}
+            {commandsData && <CommandTable report={commandsData.report} projectId={projectId} />}
+          </>
+        )}
+
+        {tab === "sessions" && error && <ErrorBanner message="Unable to load sessions" />}
 
         {!project && !projectsData && <Placeholder text="Loading project info..." />}
 
-        <div className="grid gap-4">
+        <div className={clsx("grid gap-4", tab !== "sessions" && "hidden")}>
           {!sessions.length && !isLoading && project && <Placeholder text="No sessions for this project yet." />}
 
+          {compareIds.length > 0 && (
+            <div className="flex flex-wrap items-center gap-3 rounded-2xl border border-white/10 bg-white/5 px-4 py-3 text-sm text-slate-300">
+              <span>{compareIds.length} selected for comparison</span>
+              {compareIds.length > 1 && (
+                <Link
+                  href={`/compare?sessions=${compareIds.map(encodeURIComponent).join(",")}`}
+                  className="font-semibold text-emerald-300 transition hover:text-emerald-200"
+                >
+                  Compare
+                </Link>
+              )}
+              <button
+                type="button"
+                onClick={() => setCompareIds([])}
+                className="ml-auto text-xs text-slate-400 transition hover:text-white"
+              >
+                Clear
+              </button>
+            </div>
+          )}
+
           {isLoading && !sessions.length && (
             <div className="space-y-3">
               {Array.from({ length: 4 }).map((_, idx) => (
@@ -86,23 +252,76 @@ export function ProjectSessionsPage({ projectId }: Props) {
           )}
 
           {sessions.map((session) => (
-            <Link
+            <div
               key={session.id}
-              href={`/projects/${projectId}/sessions/${session.id}`}
-              className="rounded-3xl border border-white/5 bg-white/5 p-5 transition hover:border-white/20 hover:bg-white/10"
+              className="relative rounded-3xl border border-white/5 bg-white/5 p-5 transition hover:border-white/20 hover:bg-white/10"
             >
               <div className="flex items-center justify-between text-xs text-slate-400">
-                <p className="uppercase tracking-[0.3em]">{session.id.slice(0, 8)}</p>
-                <p>{formatRelative(session.lastActivityAt)}</p>
+                <p className="uppercase tracking-[0.3em]">
+                  {session.id.slice(0, 8)}
+                  <span className="ml-3 rounded-full border border-white/10 px-2 py-0.5 text-[10px] tracking-[0.2em] text-slate-300">
+                    {session.agent}
+                  </span>
+                  {session.archived && (
+                    <span className="ml-2 rounded-full border border-amber-300/30 px-2 py-0.5 text-[10px] tracking-[0.2em] text-amber-200">
+                      archived
+                    </span>
+                  )}
+                  {projectSources.length > 1 && <span className="ml-3 normal-case tracking-normal">{session.source}</span>}
+                  {!!session.duplicateSources?.length && (
+                    <span className="ml-2 normal-case tracking-normal text-slate-500">
+                      also in {session.duplicateSources.join(", ")}
+                    </span>
+                  )}
+                </p>
+                <div className="flex items-center gap-3">
+                  <p>{formatRelative(session.lastActivityAt)}</p>
+                  <button
+                    type="button"
+                    onClick={() => toggleCompare(session.id)}
+                    className={clsx(
+                      "relative z-10 rounded-full border px-2 py-0.5 text-[10px] uppercase tracking-[0.2em] transition",
+                      compareIds.includes(session.id)
+                        ? "border-emerald-300/60 text-emerald-200"
+                        : "border-white/10 text-slate-400 hover:text-white"
+                    )}
+                    aria-pressed={compareIds.includes(session.id)}
+                  >
+                    {compareIds.includes(session.id) ? `compare #${compareIds.indexOf(session.id) + 1}` : "compare"}
+                  </button>
+                </div>
               </div>
-              <p className="mt-2 text-lg font-semibold text-white">{session.preview}</p>
+              <Link
+                href={`/projects/${projectId}/sessions/${session.id}`}
+                className="mt-2 block text-lg font-semibold text-white before:absolute before:inset-0 before:rounded-3xl"
+              >
+                {session.preview}
+              </Link>
+              {(session.projectSubdirectory || session.worktree) && (
+                <p className="mt-1 text-xs text-slate-500 break-all">
+                  {session.projectSubdirectory && <span>in {session.projectSubdirectory}/</span>}
+                  {session.worktree && <span className="ml-2">worktree {session.worktree}</span>}
+                </p>
+              )}
               <div className="mt-3 flex flex-wrap items-center gap-4 text-sm text-slate-300">
                 <span>Started {formatDate(session.startedAt)}</span>
+                {session.config.model && (
+                  <span>
+                    {session.config.model}
+                    {session.config.reasoningEffort && <span className="text-slate-500"> · {session.config.reasoningEffort}</span>}
+                  </span>
+                )}
                 <span>{session.totalTokens.toLocaleString()} model</span>
                 <span>{session.billedTokens.toLocaleString()} billed</span>
-                <span>{session.toolCallCount} tool calls</span>
+                <span className={session.cost === null ? "text-slate-500" : "text-amber-200"}>
+                  {formatCost(session.cost)}
+                </span>
+                <span>
+                  {session.toolCallCount} tool calls
+                  {session.toolCallCountPending && <span className="text-slate-500"> (counting...)</span>}
+                </span>
               </div>
-            </Link>
+            </div>
           ))}
         </div>
       </main>
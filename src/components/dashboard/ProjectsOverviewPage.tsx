@@ -2,10 +2,12 @@
 
 import Link from "next/link";
 import useSWR from "swr";
-import { useMemo } from "react";
-import type { ProjectSummary } from "@/lib/codex";
-import { formatRelative } from "@/lib/formatters";
+import { useMemo, useState } from "react";
+import type { ProjectSummary, SessionSource } from "@/lib/codex";
+import { formatCost, formatRelative } from "@/lib/formatters";
 import { ErrorBanner, Placeholder } from "@/components/ui/Feedback";
+import { FilterPills } from "@/components/ui/FilterPills";
+import { SearchBox } from "./SearchBox";
 
 const fetcher = async (url: string) => {
   const response = await fetch(url);
@@ -16,13 +18,24 @@ const fetcher = async (url: string) => {
 };
 
 export function ProjectsOverviewPage() {
+  const [source, setSource] = useState<string | null>(null);
+  const [archived, setArchived] = useState<string | null>(null);
+  const query = new URLSearchParams({
+    ...(source ? { source } : {}),
+    ...(archived ? { archived } : {}),
+  }).toString();
   const {
     data: projectsData,
     error,
     isLoading,
-  } = useSWR<{ projects: ProjectSummary[] }>("/api/projects", fetcher, { refreshInterval: 15000 });
+  } = useSWR<{ projects: ProjectSummary[]; sources: SessionSource[] }>(
+    query ? `/api/projects?${query}` : "/api/projects",
+    fetcher,
+    { refreshInterval: 15000, keepPreviousData: true }
+  );
 
   const projects = useMemo(() => projectsData?.projects ?? [], [projectsData]);
+  const sources = useMemo(() => projectsData?.sources ?? [], [projectsData]);
 
   const aggregate = useMemo(() => {
     return projects.reduce(
@@ -30,9 +43,11 @@ export function ProjectsOverviewPage() {
         totals.totalSessions += project.sessionCount;
         totals.totalTokens += project.totalTokens;
         totals.totalBilledTokens += project.billedTokens;
+        totals.totalCost += project.cost;
+        totals.unpricedSessions += project.unpricedSessionCount;
         return totals;
       },
-      { totalTokens: 0, totalBilledTokens: 0, totalSessions: 0 }
+      { totalTokens: 0, totalBilledTokens: 0, totalSessions: 0, totalCost: 0, unpricedSessions: 0 }
     );
   }, [projects]);
 
@@ -44,7 +59,21 @@ export function ProjectsOverviewPage() {
           <div className="flex flex-wrap items-end justify-between gap-4">
             <div>
               <h1 className="text-4xl font-semibold">Codex session viewer</h1>
-              <p className="text-sm text-slate-400">Step 1 · Pick a project to inspect its sessions.</p>
+              <p className="text-sm text-slate-400">
+                Step 1 · Pick a project to inspect its sessions.{" "}
+                <Link href="/settings" className="text-emerald-300 transition hover:text-emerald-200">
+                  Project settings
+                </Link>
+                {" · "}
+                <Link href="/imports" className="text-emerald-300 transition hover:text-emerald-200">
+                  Imported sessions
+                </Link>
+                {" · "}
+                <Link href="/analytics" className="text-emerald-300 transition hover:text-emerald-200">
+                  Usage analytics
+                </Link>
+              </p>
+              <SearchBox className="mt-3 w-80" />
             </div>
             {projects.length > 0 && (
               <div className="rounded-2xl border border-white/10 bg-white/5 px-5 py-3 text-right text-sm text-slate-300">
@@ -52,11 +81,35 @@ export function ProjectsOverviewPage() {
                 <p>
                   {aggregate.totalSessions} sessions · {aggregate.totalTokens.toLocaleString()} model tokens · {aggregate.totalBilledTokens.toLocaleString()} billed
                 </p>
+                <p className="text-amber-200">
+                  {formatCost(aggregate.totalCost)}
+                  {aggregate.unpricedSessions > 0 && (
+                    <span className="text-slate-500"> + {aggregate.unpricedSessions} sessions with unknown model</span>
+                  )}
+                </p>
               </div>
             )}
           </div>
         </header>
 
+        <div className="flex flex-wrap items-center gap-6">
+          {sources.length > 1 && (
+            <FilterPills
+              label="Source"
+              options={sources.map((item) => ({ value: item.label, label: item.label }))}
+              value={source}
+              onChange={setSource}
+            />
+          )}
+          <FilterPills
+            label="Archived"
+            options={[{ value: "hide", label: "Hide" }]}
+            value={archived}
+            onChange={setArchived}
+            allLabel="Show"
+          />
+        </div>
+
         {error && <ErrorBanner message="Unable to load projects" />}
 
         {isLoading && !projects.length && (
@@ -86,10 +139,16 @@ export function ProjectsOverviewPage() {
                 </div>
                 <h2 className="mt-3 text-xl font-semibold text-white">{project.name}</h2>
                 <p className="text-sm text-slate-400 break-all">{project.path}</p>
+                {sources.length > 1 && (
+                  <p className="mt-1 text-xs text-slate-500">{project.sources.join(" · ")}</p>
+                )}
                 <div className="mt-4 flex flex-wrap items-center gap-3 text-sm text-slate-300">
                   <span>{project.sessionCount} sessions</span>
                   <span>{project.totalTokens.toLocaleString()} model</span>
                   <span>{project.billedTokens.toLocaleString()} billed</span>
+                  <span className="text-amber-200">
+                    {project.unpricedSessionCount === project.sessionCount ? formatCost(null) : formatCost(project.cost)}
+                  </span>
                 </div>
                 <p className="mt-6 inline-flex items-center text-sm font-semibold text-emerald-300">
                   Continue to sessions
@@ -0,0 +1,31 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+
+// Submits to the search page; pass `projectId` to scope the search.
+export function SearchBox({ projectId, className }: { projectId?: string; className?: string }) {
+  const router = useRouter();
+  const [query, setQuery] = useState("");
+
+  return (
+    <form
+      role="search"
+      className={className}
+      onSubmit={(event) => {
+        event.preventDefault();
+        if (!query.trim()) return;
+        const params = new URLSearchParams({ q: query.trim(), ...(projectId ? { project: projectId } : {}) });
+        router.push(`/search?${params.toString()}`);
+      }}
+    >
+      <input
+        type="search"
+        value={query}
+        onChange={(event) => setQuery(event.target.value)}
+        placeholder={projectId ? "Search this project…" : "Search all sessions…"}
+        className="w-full rounded-full border border-white/10 bg-slate-900 px-4 py-2 text-sm text-white placeholder:text-slate-500 focus:border-emerald-400/60 focus:outline-none"
+      />
+    </form>
+  );
+}
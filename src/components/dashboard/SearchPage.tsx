@@ -0,0 +1,199 @@
+"use client";
+
+import Link from "next/link";
+import useSWR from "swr";
+import { useRouter } from "next/navigation";
+import { useMemo, useState } from "react";
+import type { ProjectSummary } from "@/lib/codex";
+import type { SearchHit, SearchResults } from "@/lib/search";
+import { formatDate } from "@/lib/formatters";
+import { ErrorBanner, Placeholder } from "@/components/ui/Feedback";
+import { FilterPills } from "@/components/ui/FilterPills";
+
+const fetcher = async (url: string) => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${url}`);
+  }
+  return response.json();
+};
+
+interface Props {
+  initialQuery: string;
+  initialProject: string | null;
+}
+
+const ROLE_OPTIONS = [
+  { value: "user", label: "User" },
+  { value: "assistant", label: "Assistant" },
+  { value: "reasoning", label: "Reasoning" },
+  { value: "tool", label: "Tools" },
+];
+
+const inputClass =
+  "rounded-xl border border-white/10 bg-slate-900 px-3 py-2 text-sm text-white focus:border-emerald-400/60 focus:outline-none";
+
+const hitHref = (hit: SearchHit) => {
+  const anchor = hit.messageId
+    ? `?message=${encodeURIComponent(hit.messageId)}`
+    : hit.toolCallId
+      ? `?tool=${encodeURIComponent(hit.toolCallId)}`
+      : "";
+  return `/projects/${hit.projectId}/sessions/${hit.sessionId}${anchor}`;
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const Highlighted = ({ text, query }: { text: string; query: string }) => {
+  const needles = query
+    .replace(/"/g, " ")
+    .split(/\s+/)
+    .filter((word) => word.length > 1)
+    .map(escapeRegExp);
+  if (!needles.length) return <>{text}</>;
+  const pattern = new RegExp(`(${needles.join("|")})`, "gi");
+  return (
+    <>
+      {text.split(pattern).map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="rounded bg-amber-300/30 px-0.5 text-amber-100">
+            {part}
+          </mark>
+        ) : (
+          part
+        )
+      )}
+    </>
+  );
+};
+
+export function SearchPage({ initialQuery, initialProject }: Props) {
+  const router = useRouter();
+  const [draft, setDraft] = useState(initialQuery);
+  const [query, setQuery] = useState(initialQuery);
+  const [project, setProject] = useState<string | null>(initialProject);
+  const [role, setRole] = useState<string | null>(null);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  const { data: projectsData } = useSWR<{ projects: ProjectSummary[] }>("/api/projects", fetcher);
+  const params = new URLSearchParams({
+    q: query,
+    ...(project ? { project } : {}),
+    ...(role ? { role } : {}),
+    ...(from ? { from: new Date(`${from}T00:00:00`).toISOString() } : {}),
+    ...(to ? { to: new Date(`${to}T23:59:59.999`).toISOString() } : {}),
+  }).toString();
+  const { data, error, isLoading } = useSWR<SearchResults>(query ? `/api/search?${params}` : null, fetcher, {
+    keepPreviousData: true,
+    revalidateOnFocus: false,
+  });
+
+  const projects = useMemo(() => projectsData?.projects ?? [], [projectsData]);
+
+  const submit = () => {
+    const next = draft.trim();
+    setQuery(next);
+    const urlParams = new URLSearchParams({ ...(next ? { q: next } : {}), ...(project ? { project } : {}) });
+    router.replace(`/search${urlParams.size ? `?${urlParams.toString()}` : ""}`);
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-white">
+      <main className="mx-auto flex w-full max-w-5xl flex-col gap-6 px-6 py-12">
+        <header className="space-y-3">
+          <Link href="/" className="text-sm text-slate-400 transition hover:text-white">
+            ← Back to projects
+          </Link>
+          <p className="text-sm uppercase tracking-[0.4em] text-slate-500">Search</p>
+          <form
+            role="search"
+            className="flex gap-3"
+            onSubmit={(event) => {
+              event.preventDefault();
+              submit();
+            }}
+          >
+            <input
+              type="search"
+              autoFocus
+              value={draft}
+              onChange={(event) => setDraft(event.target.value)}
+              placeholder={'oauth refresh, or "exact phrase"'}
+              className={`${inputClass} flex-1 text-base`}
+            />
+            <button
+              type="submit"
+              className="rounded-full bg-emerald-400 px-5 py-2 text-sm font-semibold text-slate-950 transition hover:bg-emerald-300"
+            >
+              Search
+            </button>
+          </form>
+          <p className="text-xs text-slate-500">
+            Every word must match; wrap words in quotes to match them as a phrase.
+          </p>
+        </header>
+
+        <div className="flex flex-wrap items-center gap-6">
+          <FilterPills label="Role" options={ROLE_OPTIONS} value={role} onChange={setRole} />
+          <label className="flex items-center gap-2 text-xs uppercase tracking-[0.3em] text-slate-500">
+            Project
+            <select
+              value={project ?? ""}
+              onChange={(event) => setProject(event.target.value || null)}
+              className={`${inputClass} normal-case tracking-normal`}
+            >
+              <option value="">All projects</option>
+              {projects.map((item) => (
+                <option key={item.id} value={item.id}>
+                  {item.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2 text-xs uppercase tracking-[0.3em] text-slate-500">
+            From
+            <input type="date" value={from} onChange={(event) => setFrom(event.target.value)} className={inputClass} />
+          </label>
+          <label className="flex items-center gap-2 text-xs uppercase tracking-[0.3em] text-slate-500">
+            To
+            <input type="date" value={to} onChange={(event) => setTo(event.target.value)} className={inputClass} />
+          </label>
+        </div>
+
+        {error && <ErrorBanner message="Search failed" />}
+        {!query && <Placeholder text="Type a query to search every session." />}
+        {query && isLoading && !data && <Placeholder text="Indexing sessions… the first search reads every rollout." />}
+        {query && data && (
+          <p className="text-xs text-slate-500">
+            {data.total.toLocaleString()} matches across {data.indexedSessions.toLocaleString()} indexed sessions
+            {data.total > data.hits.length && ` · showing the top ${data.hits.length}`}
+          </p>
+        )}
+        {query && data && !data.hits.length && <Placeholder text="No matches." />}
+
+        <div className="space-y-3">
+          {data?.hits.map((hit) => (
+            <Link
+              key={`${hit.sessionId}-${hit.messageId ?? hit.toolCallId}`}
+              href={hitHref(hit)}
+              className="block rounded-2xl border border-white/5 bg-white/5 px-4 py-3 transition hover:border-white/20 hover:bg-white/10"
+            >
+              <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-slate-400">
+                <span>
+                  <span className="uppercase tracking-[0.3em] text-slate-500">{hit.toolName ?? hit.role}</span>
+                  <span className="ml-3 text-slate-300">{hit.projectName}</span>
+                  <span className="ml-2">· {hit.sessionPreview}</span>
+                </span>
+                <span>{formatDate(hit.timestamp)}</span>
+              </div>
+              <p className="mt-2 whitespace-pre-line break-words text-sm text-white">
+                <Highlighted text={hit.snippet} query={query} />
+              </p>
+            </Link>
+          ))}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,285 @@
+"use client";
+
+import clsx from "clsx";
+import Link from "next/link";
+import useSWR from "swr";
+import { useMemo } from "react";
+import type { SessionDetail } from "@/lib/codex";
+import { averageDuration, formatCost, formatDate, formatDuration, isFailedToolCall } from "@/lib/formatters";
+import { summarizeToolUsage, type ToolTokenStat } from "@/lib/sessionTimeline";
+import { ErrorBanner, Placeholder } from "@/components/ui/Feedback";
+import { COMPARISON_COLORS, TokenComparisonChart } from "./TokenTimelineChart";
+
+const fetchSessions = async (ids: string[]) =>
+  Promise.all(
+    ids.map(async (id) => {
+      const response = await fetch(`/api/sessions/${encodeURIComponent(id)}`);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch session ${id}`);
+      }
+      return ((await response.json()) as { session: SessionDetail }).session;
+    })
+  );
+
+type Metric = {
+  label: string;
+  value: (detail: SessionDetail) => number | null;
+  format: (value: number) => string;
+  // Whether a smaller number than the first session is an improvement.
+  lowerIsBetter?: boolean;
+};
+
+const sessionDurationMs = (detail: SessionDetail) => {
+  const ms = new Date(detail.summary.lastActivityAt).getTime() - new Date(detail.summary.startedAt).getTime();
+  return Number.isNaN(ms) ? null : Math.max(ms, 0);
+};
+
+const cacheRatio = (detail: SessionDetail) => {
+  const input = detail.summary.cachedTokens + detail.summary.userTokens;
+  return input ? detail.summary.cachedTokens / input : null;
+};
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+const METRICS: Metric[] = [
+  { label: "Turns", value: (detail) => detail.turns.length, format: String, lowerIsBetter: true },
+  { label: "Duration", value: sessionDurationMs, format: formatDuration, lowerIsBetter: true },
+  {
+    label: "Model tokens",
+    value: (detail) => detail.summary.totalTokens,
+    format: (value) => value.toLocaleString(),
+    lowerIsBetter: true,
+  },
+  {
+    label: "Billed tokens",
+    value: (detail) => detail.summary.billedTokens,
+    format: (value) => value.toLocaleString(),
+    lowerIsBetter: true,
+  },
+  { label: "Cost", value: (detail) => detail.summary.cost, format: formatCost, lowerIsBetter: true },
+  { label: "Cache ratio", value: cacheRatio, format: formatPercent },
+  { label: "Tool calls", value: (detail) => detail.toolCalls.length, format: String, lowerIsBetter: true },
+  {
+    label: "Failed tool calls",
+    value: (detail) => detail.toolCalls.filter(isFailedToolCall).length,
+    format: String,
+    lowerIsBetter: true,
+  },
+];
+
+const sessionHref = (detail: SessionDetail) => `/projects/${detail.summary.projectId}/sessions/${detail.summary.id}`;
+
+// Turn prompts skip the context agents inject ahead of the task.
+const firstPrompt = (detail: SessionDetail) =>
+  detail.turns.find((turn) => turn.prompt)?.prompt || detail.summary.preview;
+
+// Relative change against the first session, coloured by whether it is an improvement.
+const DeltaBadge = ({ value, baseline, lowerIsBetter }: { value: number; baseline: number; lowerIsBetter?: boolean }) => {
+  if (!baseline || value === baseline) return null;
+  const change = (value - baseline) / Math.abs(baseline);
+  const better = lowerIsBetter ? change < 0 : change > 0;
+  return (
+    <span className={clsx("ml-2 text-xs", better ? "text-emerald-300" : "text-rose-300")}>
+      {change > 0 ? "+" : ""}
+      {Math.round(change * 100)}%
+    </span>
+  );
+};
+
+export function SessionComparePage({ sessionIds }: { sessionIds: string[] }) {
+  const { data: sessions, error, isLoading } = useSWR(
+    sessionIds.length > 1 ? sessionIds : null,
+    fetchSessions,
+    { revalidateOnFocus: false }
+  );
+
+  const series = useMemo(
+    () =>
+      (sessions ?? []).map((detail, index) => ({
+        key: `s${index}`,
+        label: `#${index + 1} ${detail.summary.config.model ?? detail.summary.id.slice(0, 8)}`,
+        timeline: detail.tokenTimeline,
+      })),
+    [sessions]
+  );
+
+  const toolUsage = useMemo(() => (sessions ?? []).map(summarizeToolUsage), [sessions]);
+  const toolNames = useMemo(() => {
+    const calls = new Map<string, number>();
+    toolUsage.flat().forEach((stat) => calls.set(stat.name, (calls.get(stat.name) ?? 0) + stat.calls));
+    return Array.from(calls.keys()).sort((a, b) => (calls.get(b) ?? 0) - (calls.get(a) ?? 0));
+  }, [toolUsage]);
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-white">
+      <main className="mx-auto flex w-full max-w-[1600px] flex-col gap-6 px-6 py-12">
+        <nav className="flex flex-wrap items-center gap-2 text-sm text-slate-400">
+          <Link href="/" className="text-white hover:underline">
+            Projects
+          </Link>
+          {sessions?.[0] && (
+            <>
+              <span>/</span>
+              <Link href={`/projects/${sessions[0].summary.projectId}`} className="text-white hover:underline">
+                {sessions[0].summary.projectName}
+              </Link>
+            </>
+          )}
+          <span>/</span>
+          <span>Compare sessions</span>
+        </nav>
+        <header className="space-y-2">
+          <h1 className="text-3xl font-semibold">Compare {sessionIds.length} sessions</h1>
+          <p className="text-sm text-slate-400">Differences are relative to session #1.</p>
+        </header>
+
+        {sessionIds.length < 2 && <Placeholder text="Pick at least two sessions to compare." large />}
+        {error && <ErrorBanner message="Unable to load one of the sessions" />}
+        {isLoading && <Placeholder text="Loading sessions..." large />}
+
+        {sessions && (
+          <>
+            <section
+              className="grid gap-4"
+              style={{ gridTemplateColumns: `repeat(${sessions.length}, minmax(0, 1fr))` }}
+            >
+              {sessions.map((detail, index) => (
+                <div key={detail.summary.id} className="flex flex-col rounded-3xl border border-white/5 bg-white/5 p-5">
+                  <div className="flex items-center gap-2 text-xs uppercase tracking-[0.3em] text-slate-500">
+                    <span
+                      className="h-2.5 w-2.5 rounded-full"
+                      style={{ background: COMPARISON_COLORS[index % COMPARISON_COLORS.length] }}
+                    />
+                    <span>#{index + 1}</span>
+                    <span>{detail.summary.agent}</span>
+                  </div>
+                  <Link href={sessionHref(detail)} className="mt-2 font-semibold text-white hover:underline">
+                    {detail.summary.config.model ?? "Unknown model"}
+                    {detail.summary.config.reasoningEffort && (
+                      <span className="text-slate-500"> · {detail.summary.config.reasoningEffort}</span>
+                    )}
+                  </Link>
+                  <p className="text-xs text-slate-400">Started {formatDate(detail.summary.startedAt)}</p>
+                  <p className="mt-3 text-[11px] uppercase tracking-[0.3em] text-slate-500">First prompt</p>
+                  <p className="mt-1 max-h-64 overflow-y-auto whitespace-pre-wrap text-sm text-slate-200">
+                    {firstPrompt(detail)}
+                  </p>
+                </div>
+              ))}
+            </section>
+
+            <section className="rounded-[32px] border border-white/5 bg-white/5 p-6">
+              <p className="mb-4 text-sm font-semibold text-white">Overview</p>
+              <div className="overflow-x-auto">
+                <table className="w-full text-left text-sm text-slate-200">
+                  <thead>
+                    <tr className="text-xs uppercase tracking-[0.2em] text-slate-500">
+                      <th className="py-2 pr-4 font-medium">Metric</th>
+                      {sessions.map((detail, index) => (
+                        <th key={detail.summary.id} className="py-2 pr-4 font-medium">
+                          #{index + 1}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {METRICS.map((metric) => {
+                      const baseline = metric.value(sessions[0]);
+                      return (
+                        <tr key={metric.label} className="border-t border-white/5">
+                          <td className="py-2 pr-4 font-semibold">{metric.label}</td>
+                          {sessions.map((detail, index) => {
+                            const value = metric.value(detail);
+                            return (
+                              <td key={detail.summary.id} className="py-2 pr-4">
+                                {value === null ? "–" : metric.format(value)}
+                                {index > 0 && value !== null && baseline !== null && (
+                                  <DeltaBadge value={value} baseline={baseline} lowerIsBetter={metric.lowerIsBetter} />
+                                )}
+                              </td>
+                            );
+                          })}
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </section>
+
+            <section className="rounded-[32px] border border-white/5 bg-white/5 p-6">
+              <p className="text-sm font-semibold text-white">Token usage over time</p>
+              <p className="mb-4 text-xs text-slate-400">Model tokens so far, measured from each session&apos;s first call.</p>
+              <TokenComparisonChart series={series} />
+            </section>
+
+            <ToolUsageDiff names={toolNames} usage={toolUsage} />
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
+
+const ToolUsageDiff = ({ names, usage }: { names: string[]; usage: ToolTokenStat[][] }) => {
+  const lookups = usage.map((stats) => new Map(stats.map((stat) => [stat.name, stat])));
+  return (
+    <section className="rounded-[32px] border border-white/5 bg-white/5 p-6">
+      <p className="text-sm font-semibold text-white">Tool usage</p>
+      <p className="mb-4 text-xs text-slate-400">Calls, error rate, average time and attributed model tokens per tool.</p>
+      {names.length === 0 ? (
+        <Placeholder text="None of these sessions called a tool." />
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm text-slate-200">
+            <thead>
+              <tr className="text-xs uppercase tracking-[0.2em] text-slate-500">
+                <th className="py-2 pr-4 font-medium">Tool</th>
+                {usage.map((_, index) => (
+                  <th key={index} className="py-2 pr-4 font-medium">
+                    #{index + 1}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {names.map((name) => {
+                const baseline = lookups[0].get(name);
+                return (
+                  <tr key={name} className="border-t border-white/5 align-top">
+                    <td className="py-2 pr-4 font-semibold">{name}</td>
+                    {lookups.map((lookup, index) => {
+                      const stat = lookup.get(name);
+                      if (!stat) {
+                        return (
+                          <td key={index} className="py-2 pr-4 text-slate-500">
+                            –
+                          </td>
+                        );
+                      }
+                      return (
+                        <td key={index} className="py-2 pr-4">
+                          {stat.calls} calls
+                          {index > 0 && baseline && (
+                            <DeltaBadge value={stat.calls} baseline={baseline.calls} lowerIsBetter />
+                          )}
+                          <span className="block text-xs text-slate-400">
+                            <span className={clsx(stat.failed > 0 && "text-rose-300")}>
+                              {stat.finished ? `${Math.round((stat.failed / stat.finished) * 100)}% errors` : "no results"}
+                            </span>
+                            {" · "}
+                            {averageDuration(stat)} avg · {stat.totalTokens.toLocaleString()} tokens
+                          </span>
+                        </td>
+                      );
+                    })}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+};
@@ -2,8 +2,12 @@
 
 import Link from "next/link";
 import useSWR from "swr";
-import type { SessionDetail } from "@/lib/codex";
+import { useEffect, useRef, useState } from "react";
+import type { SessionDetail, SessionDetailUpdate } from "@/lib/codex";
+import { mergeSessionUpdate } from "@/lib/sessionStream";
 import { ErrorBanner, Placeholder } from "@/components/ui/Feedback";
+import { RevealSecretsToggle } from "@/components/ui/RevealSecretsToggle";
+import { SearchBox } from "./SearchBox";
 import { SessionDetailView } from "./SessionDetailView";
 
 const fetcher = async (url: string) => {
@@ -17,18 +21,76 @@ const fetcher = async (url: string) => {
 interface Props {
   projectId: string;
   sessionId: string;
+  linkedMessageId?: string;
+  linkedToolCallId?: string;
 }
 
-export function SessionDetailPage({ projectId, sessionId }: Props) {
+export function SessionDetailPage({ projectId, sessionId, linkedMessageId, linkedToolCallId }: Props) {
+  // Secrets are masked by the API unless asked otherwise; revealing them is a
+  // local-viewing choice that is never remembered.
+  const [revealSecrets, setRevealSecrets] = useState(false);
+  const redactQuery = revealSecrets ? "redact=off" : "";
   const {
     data,
     error,
     isLoading,
-  } = useSWR<{ session: SessionDetail }>(`/api/sessions/${sessionId}`, fetcher, {
-    refreshInterval: 4000,
+    isValidating,
+    mutate,
+  } = useSWR<{ session: SessionDetail }>(`/api/sessions/${sessionId}${redactQuery ? `?${redactQuery}` : ""}`, fetcher, {
+    revalidateOnFocus: false,
   });
+  const [live, setLive] = useState(false);
+  const [streamGeneration, setStreamGeneration] = useState(0);
+  const cursorRef = useRef<number | null>(null);
 
   const detail = data?.session ?? null;
+  const cursor = detail?.cursor ?? null;
+  const hasSnapshot = cursor !== null;
+
+  useEffect(() => {
+    cursorRef.current = cursor;
+  }, [cursor]);
+
+  useEffect(() => {
+    if (!hasSnapshot || cursorRef.current === null) return;
+    const source = new EventSource(
+      `/api/sessions/${sessionId}/stream?from=${cursorRef.current}${redactQuery ? `&${redactQuery}` : ""}`
+    );
+
+    const resync = async () => {
+      source.close();
+      setLive(false);
+      await mutate();
+      setStreamGeneration((value) => value + 1);
+    };
+
+    source.onopen = () => setLive(true);
+    source.onerror = () => setLive(false);
+    source.addEventListener("update", (event) => {
+      const update = JSON.parse((event as MessageEvent<string>).data) as SessionDetailUpdate;
+      let outOfSync = false;
+      void mutate(
+        (current) => {
+          if (!current) return current;
+          const merged = mergeSessionUpdate(current.session, update);
+          if (!merged) {
+            outOfSync = true;
+            return current;
+          }
+          return { session: merged };
+        },
+        { revalidate: false }
+      ).then(() => {
+        if (outOfSync) void resync();
+      });
+    });
+    source.addEventListener("reset", () => void resync());
+
+    return () => {
+      source.close();
+      setLive(false);
+    };
+  }, [sessionId, hasSnapshot, streamGeneration, mutate, redactQuery]);
 
   return (
     <div className="min-h-screen bg-slate-950 text-white">
@@ -43,10 +105,20 @@ export function SessionDetailPage({ projectId, sessionId }: Props) {
           </Link>
           <span>/</span>
           <span className="text-slate-400">Session</span>
+          <RevealSecretsToggle revealed={revealSecrets} onChange={setRevealSecrets} className="ml-auto" />
+          <SearchBox projectId={projectId} className="w-full max-w-xs" />
         </nav>
         {error && <ErrorBanner message="Unable to load session data" />}
         {isLoading && !detail && <Placeholder text="Loading session..." large />}
-        {detail && <SessionDetailView detail={detail} refreshing={isLoading} />}
+        {detail && (
+          <SessionDetailView
+            detail={detail}
+            refreshing={isValidating}
+            live={live}
+            linkedMessageId={linkedMessageId}
+            linkedToolCallId={linkedToolCallId}
+          />
+        )}
       </main>
     </div>
   );
@@ -2,46 +2,45 @@
 
 import clsx from "clsx";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
-import type { SessionDetail, SessionSummary, TokenDelta } from "@/lib/codex";
-import { formatDate, formatRelative } from "@/lib/formatters";
-import { Placeholder } from "@/components/ui/Feedback";
+import type { SessionConfig, SessionConfigChange, SessionDetail, SessionSummary, TokenDelta } from "@/lib/codex";
+import { averageDuration, formatCost, formatDate, formatRelative } from "@/lib/formatters";
 import {
-  TokenTimelineChart,
-  TOKEN_SERIES_META,
-  type TokenSeriesKey,
-  type ToolCallInsight,
-} from "./TokenTimelineChart";
+  buildTimelineEvents,
+  buildToolInsights,
+  buildToolTokenStats,
+  getCallTimestamp,
+  type ContextRange,
+  type TelemetryEvent,
+  type ToolTokenStat,
+} from "@/lib/sessionTimeline";
+import { buildCommandReport } from "@/lib/shell";
+import { Placeholder } from "@/components/ui/Feedback";
+import { TokenTimelineChart, TOKEN_SERIES_META, type TokenSeriesKey } from "./TokenTimelineChart";
+import { ChangesPanel } from "./ChangesPanel";
+import { CommandTable } from "./CommandTable";
+import { ExportMenu } from "./ExportMenu";
+import { FileActivityList } from "./FileActivityList";
+import { TurnList } from "./TurnList";
 
 interface SessionDetailProps {
   detail: SessionDetail;
   refreshing: boolean;
+  live?: boolean;
+  // Deep links from search land on a specific message or tool call.
+  linkedMessageId?: string;
+  linkedToolCallId?: string;
+  // Where downloads come from; defaults to the indexed session's export route.
+  exportHref?: string;
 }
 
-type ContextRange = { before: number; after: number };
-
-type TelemetryEvent = {
-  id: string;
-  timestamp: string;
-  timestampMs: number;
-  kind: "tool" | "file" | "user" | "agent";
-  title: string;
-  subtitle?: string;
-  deltaTokens?: TokenDelta | null;
-  contextRange?: ContextRange | null;
-  snippet?: string | null;
-};
-
-type ToolTokenStat = {
-  name: string;
-  calls: number;
-  totalTokens: number;
-  userTokens: number;
-  cachedTokens: number;
-  outputTokens: number;
-  reasoningTokens: number;
-};
-
-export const SessionDetailView = ({ detail, refreshing }: SessionDetailProps) => {
+export const SessionDetailView = ({
+  detail,
+  refreshing,
+  live = false,
+  linkedMessageId,
+  linkedToolCallId,
+  exportHref,
+}: SessionDetailProps) => {
   const summary = detail.summary;
   const heroStats = [
     { label: "Model tokens", value: summary.totalTokens, accent: "text-emerald-300" },
@@ -57,7 +56,12 @@ export const SessionDetailView = ({ detail, refreshing }: SessionDetailProps) =>
     { label: "Reasoning tokens", value: summary.reasoningTokens },
   ];
 
-  const [activeTimestamp, setActiveTimestamp] = useState<number | null>(null);
+  const [activeTimestamp, setActiveTimestamp] = useState<number | null>(() => {
+    const message = linkedMessageId && detail.messages.find((item) => item.id === linkedMessageId);
+    if (message) return new Date(message.timestamp).getTime();
+    const call = linkedToolCallId && detail.toolCalls.find((item) => item.id === linkedToolCallId);
+    return call ? getCallTimestamp(call) : null;
+  });
   const [hoverTimestamp, setHoverTimestamp] = useState<number | null>(null);
   const [hiddenSeries, setHiddenSeries] = useState<Partial<Record<TokenSeriesKey, boolean>>>({});
   const [hiddenEventKinds, setHiddenEventKinds] = useState<Partial<Record<TelemetryEvent["kind"], boolean>>>({});
@@ -67,44 +71,10 @@ export const SessionDetailView = ({ detail, refreshing }: SessionDetailProps) =>
     [detail.tokenTimeline]
   );
 
-  const { toolInsights, deltaLookup } = useMemo(() => {
-    const timeline = sortedTimeline;
-    if (!timeline.length) {
-      const emptyInsights = detail.toolCalls.reduce((acc, call) => {
-        acc[call.id] = {
-          anchorTimestamp: null,
-          eventTimestamp: getCallTimestamp(call),
-          deltaTokens: null,
-        };
-        return acc;
-      }, {} as Record<string, ToolCallInsight>);
-      return { toolInsights: emptyInsights, deltaLookup: new Map<number, TokenDelta | null>() };
-    }
-
-    const deltaByTimestamp = new Map<number, TokenDelta | null>();
-    for (let i = 0; i < timeline.length; i += 1) {
-      const current = timeline[i];
-      const previous = i > 0 ? timeline[i - 1] : undefined;
-      deltaByTimestamp.set(current.timestampMs, deriveDeltaFromPoints(current, previous));
-    }
-
-    const fallbackAnchor = timeline[timeline.length - 1]?.timestampMs ?? null;
-    const insights = detail.toolCalls.reduce((acc, call) => {
-      const eventTimestamp = getCallTimestamp(call);
-      const anchorPoint =
-        eventTimestamp !== null
-          ? timeline.find((point) => point.timestampMs >= eventTimestamp) ?? timeline[timeline.length - 1]
-          : timeline[timeline.length - 1];
-      acc[call.id] = {
-        anchorTimestamp: anchorPoint?.timestampMs ?? fallbackAnchor,
-        eventTimestamp,
-        deltaTokens: anchorPoint ? deltaByTimestamp.get(anchorPoint.timestampMs) ?? null : null,
-      };
-      return acc;
-    }, {} as Record<string, ToolCallInsight>);
-
-    return { toolInsights: insights, deltaLookup: deltaByTimestamp };
-  }, [detail.toolCalls, sortedTimeline]);
+  const { toolInsights, deltaLookup } = useMemo(
+    () => buildToolInsights(detail.toolCalls, sortedTimeline),
+    [detail.toolCalls, sortedTimeline]
+  );
 
   const timelineEvents = useMemo(
     () => buildTimelineEvents(detail, toolInsights, deltaLookup, sortedTimeline),
@@ -115,50 +85,51 @@ export const SessionDetailView = ({ detail, refreshing }: SessionDetailProps) =>
   }, [detail.tokenTimeline, timelineEvents]);
   const resolvedTimestamp = activeTimestamp ?? fallbackTimestamp;
 
-  const toolTokenStats = useMemo<ToolTokenStat[]>(() => {
-    const map = new Map<string, ToolTokenStat>();
-    for (const event of timelineEvents) {
-      if (event.kind !== "tool" || !event.deltaTokens) continue;
-      const name = event.title || "Tool";
-      const current =
-        map.get(name) ?? {
-          name,
-          calls: 0,
-          totalTokens: 0,
-          userTokens: 0,
-          cachedTokens: 0,
-          outputTokens: 0,
-          reasoningTokens: 0,
-        };
-      current.calls += 1;
-      current.totalTokens += event.deltaTokens.totalTokens ?? 0;
-      current.userTokens += event.deltaTokens.userTokens ?? 0;
-      current.cachedTokens += event.deltaTokens.cachedTokens ?? 0;
-      current.outputTokens += event.deltaTokens.outputTokens ?? 0;
-      current.reasoningTokens += event.deltaTokens.reasoningTokens ?? 0;
-      map.set(name, current);
-    }
-    return Array.from(map.values()).sort((a, b) => b.totalTokens - a.totalTokens);
-  }, [timelineEvents]);
+  const commandReport = useMemo(() => buildCommandReport(detail.shellCommands), [detail.shellCommands]);
+
+  const toolTokenStats = useMemo(
+    () => buildToolTokenStats(detail.toolCalls, timelineEvents),
+    [detail.toolCalls, timelineEvents]
+  );
 
   return (
     <div className="space-y-8">
       <header className="flex flex-col gap-3 border-b border-white/5 pb-6 md:flex-row md:items-end md:justify-between">
         <div>
-          <p className="text-xs uppercase tracking-[0.3em] text-slate-500">{summary.projectName}</p>
+          <p className="text-xs uppercase tracking-[0.3em] text-slate-500">
+            {summary.projectName}
+            {summary.projectSubdirectory && <span className="normal-case tracking-normal"> / {summary.projectSubdirectory}</span>}
+            {summary.worktree && <span className="ml-2 normal-case tracking-normal">worktree {summary.worktree}</span>}
+          </p>
           <h1 className="text-3xl font-semibold text-white">{summary.preview}</h1>
           <p className="text-sm text-slate-400">Session {formatSessionLabel(summary)}</p>
-          <p className="text-xs text-slate-500 break-all">{summary.relativePath}</p>
+          <p className="text-xs text-slate-500 break-all">
+            {summary.agent} · {summary.source} · {summary.relativePath}
+            {summary.archived && <span className="ml-2 text-amber-200">Archived</span>}
+          </p>
+          <ConfigBadges config={summary.config} />
         </div>
         <div className="text-right text-xs text-slate-400">
           <p>Started {formatDate(summary.startedAt)}</p>
           <p>Last event {formatRelative(summary.lastActivityAt)}</p>
-          {refreshing && <span className="text-emerald-300">Updating...</span>}
+          <div className="my-2">
+            <ExportMenu href={exportHref ?? `/api/sessions/${encodeURIComponent(summary.id)}/export`} />
+          </div>
+          {live ? (
+            <span className="inline-flex items-center gap-2 text-emerald-300">
+              <span className="inline-flex h-2 w-2 animate-pulse rounded-full bg-emerald-300" />
+              Live
+            </span>
+          ) : (
+            refreshing && <span className="text-emerald-300">Updating...</span>
+          )}
         </div>
       </header>
 
+      {detail.configHistory.length > 1 && <ConfigHistory history={detail.configHistory} />}
+
       <div className="mx-auto w-full max-w-4xl">
-        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-5">
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
           {heroStats.map((card) => (
             <div key={card.label} className="rounded-2xl border border-white/5 bg-white/5 p-5">
               <p className="text-xs uppercase tracking-[0.3em] text-slate-500">{card.label}</p>
@@ -171,6 +142,17 @@ export const SessionDetailView = ({ detail, refreshing }: SessionDetailProps) =>
             <p className="text-xs uppercase tracking-[0.3em] text-slate-500">Tool calls</p>
             <p className="mt-2 text-3xl font-semibold text-white">{detail.toolCalls.length}</p>
           </div>
+          <div className="rounded-2xl border border-white/5 bg-white/5 p-5">
+            <p className="text-xs uppercase tracking-[0.3em] text-slate-500">Estimated cost</p>
+            <p
+              className={clsx(
+                "mt-2 font-semibold",
+                summary.cost === null ? "text-lg text-slate-400" : "text-3xl text-amber-200"
+              )}
+            >
+              {formatCost(summary.cost)}
+            </p>
+          </div>
         </div>
       </div>
 
@@ -229,17 +211,96 @@ export const SessionDetailView = ({ detail, refreshing }: SessionDetailProps) =>
         </div>
       </div>
 
+      <div className="full-bleed px-4 sm:px-8">
+        <TurnList turns={detail.turns} messages={detail.messages} toolCalls={detail.toolCalls} />
+      </div>
+
+      {detail.shellCommands.length > 0 && (
+        <div className="full-bleed px-4 sm:px-8">
+          <CommandTable
+            report={commandReport}
+            onSelectCommand={(command) => command.startedAt && setActiveTimestamp(new Date(command.startedAt).getTime())}
+          />
+        </div>
+      )}
+
+      {detail.fileActivity.length > 0 && (
+        <div className="full-bleed px-4 sm:px-8">
+          <FileActivityList
+            activity={detail.fileActivity}
+            root={summary.worktree ?? summary.projectPath}
+            onSelectTimestamp={setActiveTimestamp}
+          />
+        </div>
+      )}
+
+      {detail.fileChanges.length > 0 && (
+        <div className="full-bleed px-4 sm:px-8">
+          <ChangesPanel changes={detail.fileChanges} />
+        </div>
+      )}
+
       <div className="full-bleed px-4 sm:px-8">
         <MessageList
           messages={detail.messages}
           activeTimestamp={resolvedTimestamp}
           hiddenKinds={hiddenEventKinds}
+          linkedMessageId={linkedMessageId}
         />
       </div>
     </div>
   );
 };
 
+const CONFIG_FIELDS: { key: keyof SessionConfig; label: string }[] = [
+  { key: "model", label: "Model" },
+  { key: "reasoningEffort", label: "Effort" },
+  { key: "approvalPolicy", label: "Approval" },
+  { key: "sandbox", label: "Sandbox" },
+  { key: "modelProvider", label: "Provider" },
+  { key: "cliVersion", label: "CLI" },
+];
+
+const ConfigBadges = ({ config }: { config: SessionConfig }) => {
+  const fields = CONFIG_FIELDS.filter((field) => config[field.key]);
+  if (!fields.length) return null;
+  return (
+    <div className="mt-2 flex flex-wrap gap-2 text-xs">
+      {fields.map((field) => (
+        <span key={field.key} className="rounded-full border border-white/10 bg-white/5 px-3 py-1 text-slate-300">
+          <span className="text-slate-500">{field.label}</span> {config[field.key]}
+        </span>
+      ))}
+    </div>
+  );
+};
+
+const ConfigHistory = ({ history }: { history: SessionConfigChange[] }) => (
+  <section className="rounded-3xl border border-white/5 bg-white/5 p-5">
+    <p className="text-xs uppercase tracking-[0.3em] text-slate-500">Configuration changes</p>
+    <ol className="mt-3 space-y-2 text-sm text-slate-300">
+      {history.map((change, index) => {
+        const previous = history[index - 1]?.config;
+        const changed = CONFIG_FIELDS.filter(
+          (field) => change.config[field.key] && (!previous || previous[field.key] !== change.config[field.key])
+        );
+        return (
+          <li key={`${change.timestamp}-${index}`} className="flex flex-wrap gap-x-3 gap-y-1">
+            <span className="text-slate-500">{formatDate(change.timestamp)}</span>
+            {changed.map((field) => (
+              <span key={field.key}>
+                <span className="text-slate-500">{field.label}</span>{" "}
+                {previous?.[field.key] ? `${previous[field.key]} → ` : ""}
+                {change.config[field.key]}
+              </span>
+            ))}
+          </li>
+        );
+      })}
+    </ol>
+  </section>
+);
+
 const TelemetryTimeline = ({
   events,
   activeTimestamp,
@@ -258,9 +319,9 @@ const TelemetryTimeline = ({
   onToggleKind: (kind: TelemetryEvent["kind"]) => void;
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
-  const cardRefs = useRef(new Map<string, HTMLDivElement>());
+  const cardRefs = useRef(new Map<string, HTMLButtonElement>());
   const autoScrolling = useRef(false);
-  const rafRef = useRef<number>();
+  const rafRef = useRef<number | undefined>(undefined);
   const releaseTimeoutRef = useRef<number | null>(null);
   const lastUserDrivenTimestamp = useRef<number | null>(null);
   const filteredEvents = useMemo(
@@ -361,7 +422,7 @@ const TelemetryTimeline = ({
     };
   }, [reportCenterEvent]);
 
-  const setCardRef = useCallback((id: string, node: HTMLDivElement | null) => {
+  const setCardRef = useCallback((id: string, node: HTMLButtonElement | null) => {
     if (!node) {
       cardRefs.current.delete(id);
     } else {
@@ -397,7 +458,7 @@ const TelemetryTimeline = ({
                 className={clsx(
                   "snap-center rounded-[28px] border px-5 py-4 text-left transition focus:outline-none",
                   "min-w-[260px] max-w-xs bg-slate-950/60 shadow-[0_20px_45px_rgba(15,23,42,0.45)]",
-                  isActive ? "border-sky-300/70" : "border-white/10 hover:border-white/30"
+                  isActive ? "border-sky-300/70" : event.failed ? "border-rose-400/50" : "border-white/10 hover:border-white/30"
                 )}
                 onClick={() => {
                   lastUserDrivenTimestamp.current = event.timestampMs;
@@ -409,7 +470,7 @@ const TelemetryTimeline = ({
                     <span
                       className={clsx(
                         "inline-flex h-2.5 w-2.5 rounded-full",
-                        meta.dotClass
+                        event.failed ? "bg-rose-400" : meta.dotClass
                       )}
                     />
                     {meta.label}
@@ -417,7 +478,9 @@ const TelemetryTimeline = ({
                   <span>{formatClock(event.timestampMs)}</span>
                 </div>
                 <p className="mt-2 text-base font-semibold text-white">{event.title}</p>
-                {event.subtitle && <p className="text-xs text-slate-400">{event.subtitle}</p>}
+                {event.subtitle && (
+                  <p className={clsx("text-xs", event.failed ? "text-rose-300" : "text-slate-400")}>{event.subtitle}</p>
+                )}
                 {event.deltaTokens ? (
                   <p className="mt-1 text-xs text-emerald-300">
                     Context {formatTokenDelta(event.deltaTokens, event.contextRange)}
@@ -445,10 +508,12 @@ const MessageList = ({
   messages,
   activeTimestamp,
   hiddenKinds,
+  linkedMessageId,
 }: {
   messages: SessionDetail["messages"];
   activeTimestamp: number | null;
   hiddenKinds: Partial<Record<TelemetryEvent["kind"], boolean>>;
+  linkedMessageId?: string;
 }) => {
   const filteredMessages = useMemo(
     () =>
@@ -462,6 +527,9 @@ const MessageList = ({
 
   const focusMessageId = useMemo(() => {
     if (activeTimestamp === null || !filteredMessages.length) return null;
+    // Several entries can share a timestamp; a linked one wins while it is the active time.
+    const linked = filteredMessages.find((message) => message.id === linkedMessageId);
+    if (linked && new Date(linked.timestamp).getTime() === activeTimestamp) return linked.id;
     for (const message of filteredMessages) {
       const messageTime = new Date(message.timestamp).getTime();
       if (messageTime >= activeTimestamp) {
@@ -469,7 +537,7 @@ const MessageList = ({
       }
     }
     return filteredMessages[filteredMessages.length - 1]?.id ?? null;
-  }, [filteredMessages, activeTimestamp]);
+  }, [filteredMessages, activeTimestamp, linkedMessageId]);
 
   useEffect(() => {
     if (!focusMessageId) return;
@@ -495,7 +563,8 @@ const MessageList = ({
               id={`message-${message.id}`}
               className={clsx(
                 "rounded-2xl border border-white/5 bg-slate-950/40 px-4 py-3 transition",
-                isFocused && "border-sky-400/70 bg-slate-900/70 shadow-sky-500/20"
+                isFocused && "border-sky-400/70 bg-slate-900/70 shadow-sky-500/20",
+                message.id === linkedMessageId && "ring-1 ring-amber-300/60"
               )}
             >
               <div className="flex items-center justify-between text-xs text-slate-400">
@@ -511,53 +580,14 @@ const MessageList = ({
   );
 };
 
-const truncate = (value: string, max = 320) => (value.length > max ? `${value.slice(0, max)}...` : value);
-
 const formatSessionLabel = (summary: SessionSummary) => {
   const filename = summary.relativePath.split("/").pop() ?? summary.relativePath;
   return filename.replace(/\.jsonl$/, "");
 };
 
-const getCallTimestamp = (call: SessionDetail["toolCalls"][number]) => {
-  const candidates = [call.completedAt, call.startedAt];
-  for (const candidate of candidates) {
-    if (!candidate) continue;
-    const ms = new Date(candidate).getTime();
-    if (!Number.isNaN(ms)) return ms;
-  }
-  return null;
-};
-
 const formatClock = (value: number) =>
   new Date(value).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit", second: "2-digit" });
 
-const summarizeCall = (call: SessionDetail["toolCalls"][number]) => {
-  const raw = typeof call.output === "string" && call.output.trim().length
-    ? call.output
-    : typeof call.input === "string"
-      ? call.input
-      : null;
-  if (!raw) return null;
-  return truncate(raw, 200);
-};
-
-const deriveDeltaFromPoints = (
-  current: SessionDetail["tokenTimeline"][number],
-  previous?: SessionDetail["tokenTimeline"][number]
-): TokenDelta | null => {
-  if (current.delta) return current.delta;
-  if (!previous) return null;
-  return {
-    totalTokens: current.totalTokens - previous.totalTokens,
-    inputTokens: current.inputTokens - previous.inputTokens,
-    cachedTokens: current.cachedTokens - previous.cachedTokens,
-    userTokens: current.userTokens - previous.userTokens,
-    outputTokens: current.outputTokens - previous.outputTokens,
-    reasoningTokens: current.reasoningTokens - previous.reasoningTokens,
-    billedTokens: current.billedTokens - previous.billedTokens,
-  };
-};
-
 const formatTokenDelta = (delta?: TokenDelta | null, range?: ContextRange | null) => {
   if (!delta) return "Δ";
   const total = delta.totalTokens ?? 0;
@@ -643,198 +673,6 @@ const EventKindToggle = ({
   </div>
 );
 
-const buildTimelineEvents = (
-  detail: SessionDetail,
-  toolInsights: Record<string, ToolCallInsight>,
-  deltaLookup: Map<number, TokenDelta | null>,
-  timeline: SessionDetail["tokenTimeline"]
-): TelemetryEvent[] => {
-  const fallbackTimelinePoint = timeline[timeline.length - 1];
-  const summaryFallback = new Date(detail.summary.lastActivityAt).getTime();
-  const safeFallbackTimestamp = Number.isNaN(summaryFallback)
-    ? Date.now()
-    : summaryFallback;
-  const consumedAnchors = new Set<number>();
-
-  const registerDelta = (
-    delta: TokenDelta | null,
-    anchorPoint: SessionDetail["tokenTimeline"][number] | null
-  ) => {
-    if (!delta) return { delta: null, range: null } as const;
-    const anchorTimestamp = anchorPoint?.timestampMs ?? null;
-    if (anchorTimestamp && consumedAnchors.has(anchorTimestamp)) {
-      return { delta: null, range: null } as const;
-    }
-    if (anchorTimestamp) consumedAnchors.add(anchorTimestamp);
-    const after = anchorPoint?.totalTokens ?? null;
-    const before = after !== null ? after - delta.totalTokens : null;
-    return {
-      delta,
-      range: before !== null && after !== null ? { before, after } : null,
-    } as const;
-  };
-
-  const toolEvents: TelemetryEvent[] = detail.toolCalls.map((call) => {
-    const insight = toolInsights[call.id];
-    const rawTimestamp =
-      insight?.eventTimestamp ??
-      getCallTimestamp(call) ??
-      fallbackTimelinePoint?.timestampMs ??
-      safeFallbackTimestamp;
-    const timestampMs = Number.isNaN(rawTimestamp) ? safeFallbackTimestamp : rawTimestamp;
-    const resolvedAnchorTimestamp = insight?.anchorTimestamp ?? null;
-    const resolvedAnchorPoint = resolvedAnchorTimestamp
-      ? timeline.find((point) => point.timestampMs === resolvedAnchorTimestamp)
-      : anchorPoint;
-    const fallbackDeltaInfo = estimateDeltaForTimestamp(timestampMs, timeline, deltaLookup);
-    const registered = registerDelta(
-      insight?.deltaTokens ?? fallbackDeltaInfo.delta,
-      resolvedAnchorPoint ?? fallbackDeltaInfo.anchorPoint
-    );
-    return {
-      id: `tool-${call.id}`,
-      timestamp: new Date(timestampMs).toISOString(),
-      timestampMs,
-      kind: "tool",
-      title: call.name,
-      subtitle: `${call.toolKind} · ${call.status}`,
-      deltaTokens: registered.delta,
-      contextRange: registered.range,
-      snippet: summarizeCall(call),
-    } satisfies TelemetryEvent;
-  });
-
-  const fileEvents = detail.messages
-    .map((message) => buildFileEvent(message))
-    .filter((event): event is TelemetryEvent => Boolean(event));
-
-  const conversationEvents = detail.messages
-    .map((message) => buildConversationEvent(message, timeline, deltaLookup, registerDelta))
-    .filter((event): event is TelemetryEvent => Boolean(event));
-
-  return [...toolEvents, ...fileEvents, ...conversationEvents].sort((a, b) => a.timestampMs - b.timestampMs);
-};
-
-const buildFileEvent = (message: SessionDetail["messages"][number]): TelemetryEvent | null => {
-  if (message.kind !== "status") return null;
-  const text = message.text ?? "";
-  if (!looksLikeFileEvent(text)) return null;
-  const timestampMs = new Date(message.timestamp).getTime();
-  if (Number.isNaN(timestampMs)) return null;
-  const action = extractFileAction(text);
-  const path = extractFilePath(text);
-  return {
-    id: `file-${message.id}`,
-    timestamp: message.timestamp,
-    timestampMs,
-    kind: "file",
-    title: path ?? action ?? "File event",
-    subtitle: action ?? "File activity",
-    snippet: text,
-  } satisfies TelemetryEvent;
-};
-
-const FILE_EVENT_PATTERNS = [
-  /reading file/i,
-  /read file/i,
-  /opened file/i,
-  /loading file/i,
-  /saved file/i,
-  /wrote file/i,
-  /writ(?:ing)? file/i,
-];
-
-const looksLikeFileEvent = (text: string) => FILE_EVENT_PATTERNS.some((pattern) => pattern.test(text));
-
-const extractFileAction = (text: string) => {
-  if (/reading file/i.test(text)) return "Reading file";
-  if (/read file/i.test(text)) return "Read file";
-  if (/opened file/i.test(text)) return "Opened file";
-  if (/saved file/i.test(text)) return "Saved file";
-  if (/writ(?:ing)? file/i.test(text)) return "Writing file";
-  if (/loading file/i.test(text)) return "Loading file";
-  return undefined;
-};
-
-const extractFilePath = (text: string) => {
-  const inline = text.match(/`([^`]+)`|"([^"]+)"|'([^']+)'/);
-  if (inline) {
-    return (inline[1] ?? inline[2] ?? inline[3])?.trim();
-  }
-  const afterColon = text.match(/file[:\s]+([^\s]+)/i);
-  if (afterColon) {
-    return afterColon[1]?.trim();
-  }
-  const pathLike = text.match(/([A-Za-z0-9_./-]+\.[A-Za-z0-9]+)/);
-  return pathLike?.[1];
-};
-
-const buildConversationEvent = (
-  message: SessionDetail["messages"][number],
-  timeline: SessionDetail["tokenTimeline"],
-  deltaLookup: Map<number, TokenDelta | null>,
-  registerDelta: (
-    delta: TokenDelta | null,
-    anchorPoint: SessionDetail["tokenTimeline"][number] | null
-  ) => { delta: TokenDelta | null; range: ContextRange | null }
-): TelemetryEvent | null => {
-  if (message.kind !== "text") return null;
-  if (message.role !== "user" && message.role !== "assistant") return null;
-  const timestampMs = new Date(message.timestamp).getTime();
-  if (Number.isNaN(timestampMs)) return null;
-  const kind = message.role === "user" ? ("user" as const) : ("agent" as const);
-  const title = extractHeadline(message.text);
-  const deltaInfo = estimateDeltaForTimestamp(timestampMs, timeline, deltaLookup);
-  const registered = registerDelta(deltaInfo.delta, deltaInfo.anchorPoint);
-  return {
-    id: `msg-${message.id}`,
-    timestamp: message.timestamp,
-    timestampMs,
-    kind,
-    title,
-    subtitle: kind === "user" ? "User input" : "Agent response",
-    snippet: message.text,
-    deltaTokens: registered.delta,
-    contextRange: registered.range,
-  } satisfies TelemetryEvent;
-};
-
-const extractHeadline = (text: string) => {
-  const firstLine = text.trim().split(/\n+/)[0] ?? "";
-  if (!firstLine) return "Conversation";
-  return truncate(firstLine, 120);
-};
-
-const estimateDeltaForTimestamp = (
-  timestampMs: number,
-  timeline: SessionDetail["tokenTimeline"],
-  deltaLookup: Map<number, TokenDelta | null>
-) => {
-  if (!timeline.length) {
-    return { delta: null, anchorPoint: null } as const;
-  }
-  let closestIndex = 0;
-  let minDiff = Number.POSITIVE_INFINITY;
-  for (let i = 0; i < timeline.length; i += 1) {
-    const diff = Math.abs(timeline[i].timestampMs - timestampMs);
-    if (diff < minDiff) {
-      minDiff = diff;
-      closestIndex = i;
-    }
-  }
-
-  const candidateIndices = [closestIndex, closestIndex - 1, closestIndex + 1, closestIndex + 2];
-  for (const index of candidateIndices) {
-    if (index < 0 || index >= timeline.length) continue;
-    const candidatePoint = timeline[index];
-    const delta = deltaLookup.get(candidatePoint.timestampMs);
-    if (delta) {
-      return { delta, anchorPoint: candidatePoint } as const;
-    }
-  }
-  return { delta: null, anchorPoint: null } as const;
-};
-
 const TIMELINE_KIND_META: Record<TelemetryEvent["kind"], { label: string; dotClass: string }> = {
   tool: { label: "tool", dotClass: "bg-sky-300" },
   file: { label: "file", dotClass: "bg-emerald-300" },
@@ -842,6 +680,12 @@ const TIMELINE_KIND_META: Record<TelemetryEvent["kind"], { label: string; dotCla
   agent: { label: "agent", dotClass: "bg-indigo-300" },
 };
 
+const ErrorRateCell = ({ failed, finished }: { failed: number; finished: number }) => (
+  <td className={clsx("py-2 pr-4", failed > 0 && "text-rose-300")} title={`${failed} of ${finished} finished calls`}>
+    {finished ? `${Math.round((failed / finished) * 100)}%` : "–"}
+  </td>
+);
+
 const ToolUsageTable = ({ stats }: { stats: ToolTokenStat[] }) => {
   const totals = stats.reduce(
     (acc, item) => {
@@ -851,17 +695,34 @@ const ToolUsageTable = ({ stats }: { stats: ToolTokenStat[] }) => {
       acc.outputTokens += item.outputTokens;
       acc.reasoningTokens += item.reasoningTokens;
       acc.calls += item.calls;
+      acc.finished += item.finished;
+      acc.failed += item.failed;
+      acc.durationMs += item.durationMs;
+      acc.timedCalls += item.timedCalls;
       return acc;
     },
-    { totalTokens: 0, userTokens: 0, cachedTokens: 0, outputTokens: 0, reasoningTokens: 0, calls: 0 }
+    {
+      totalTokens: 0,
+      userTokens: 0,
+      cachedTokens: 0,
+      outputTokens: 0,
+      reasoningTokens: 0,
+      calls: 0,
+      finished: 0,
+      failed: 0,
+      durationMs: 0,
+      timedCalls: 0,
+    }
   );
 
   return (
     <div className="rounded-[32px] border border-white/5 bg-white/5 p-6">
       <div className="mb-4 flex flex-col gap-2 md:flex-row md:items-end md:justify-between">
         <div>
-          <p className="text-sm font-semibold text-white">Tool token usage</p>
-          <p className="text-xs text-slate-400">Totals derive from Codex token_count deltas per tool call.</p>
+          <p className="text-sm font-semibold text-white">Tool usage</p>
+          <p className="text-xs text-slate-400">
+            Tokens derive from Codex token_count deltas per tool call; errors count failed, timed out and rejected calls.
+          </p>
         </div>
         {stats.length > 0 && (
           <p className="text-xs text-slate-400">
@@ -878,6 +739,8 @@ const ToolUsageTable = ({ stats }: { stats: ToolTokenStat[] }) => {
               <tr className="text-xs uppercase tracking-[0.2em] text-slate-500">
                 <th className="py-2 pr-4 font-medium">Tool</th>
                 <th className="py-2 pr-4 font-medium">Calls</th>
+                <th className="py-2 pr-4 font-medium">Errors</th>
+                <th className="py-2 pr-4 font-medium">Avg time</th>
                 <th className="py-2 pr-4 font-medium">Model</th>
                 <th className="py-2 pr-4 font-medium">User</th>
                 <th className="py-2 pr-4 font-medium">Output</th>
@@ -892,6 +755,8 @@ const ToolUsageTable = ({ stats }: { stats: ToolTokenStat[] }) => {
                   <tr key={tool.name} className={clsx("border-t border-white/5", highlight && "text-emerald-300")}> 
                     <td className="py-2 pr-4 font-semibold">{tool.name}</td>
                     <td className="py-2 pr-4">{tool.calls.toLocaleString()}</td>
+                    <ErrorRateCell failed={tool.failed} finished={tool.finished} />
+                    <td className="py-2 pr-4">{averageDuration(tool)}</td>
                     <td className="py-2 pr-4">{tool.totalTokens.toLocaleString()}</td>
                     <td className="py-2 pr-4">{tool.userTokens.toLocaleString()}</td>
                     <td className="py-2 pr-4">{tool.outputTokens.toLocaleString()}</td>
@@ -903,6 +768,8 @@ const ToolUsageTable = ({ stats }: { stats: ToolTokenStat[] }) => {
               <tr className="border-t border-white/10 text-slate-300">
                 <td className="py-2 pr-4 font-semibold">Total</td>
                 <td className="py-2 pr-4">{totals.calls.toLocaleString()}</td>
+                <ErrorRateCell failed={totals.failed} finished={totals.finished} />
+                <td className="py-2 pr-4">{averageDuration(totals)}</td>
                 <td className="py-2 pr-4">{totals.totalTokens.toLocaleString()}</td>
                 <td className="py-2 pr-4">{totals.userTokens.toLocaleString()}</td>
                 <td className="py-2 pr-4">{totals.outputTokens.toLocaleString()}</td>
@@ -0,0 +1,254 @@
+"use client";
+
+import Link from "next/link";
+import useSWR from "swr";
+import { useState } from "react";
+import type { ProjectSummary } from "@/lib/codex";
+import type { ViewerConfig } from "@/lib/viewerConfig";
+import { ErrorBanner, Placeholder } from "@/components/ui/Feedback";
+
+const fetcher = async (url: string) => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${url}`);
+  }
+  return response.json();
+};
+
+type RenameRow = { key: string; name: string };
+type MergeRow = { name: string; paths: string };
+
+const lines = (value: string) =>
+  value
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+const inputClass =
+  "w-full rounded-xl border border-white/10 bg-slate-900 px-3 py-2 text-sm text-white placeholder:text-slate-600 focus:border-emerald-400/60 focus:outline-none";
+
+const buttonClass =
+  "rounded-full border border-white/10 px-3 py-1 text-xs text-slate-300 transition hover:border-white/30 hover:text-white";
+
+export function SettingsPage() {
+  const { data, error, mutate } = useSWR<{ config: ViewerConfig }>("/api/settings", fetcher);
+  const { data: projectsData } = useSWR<{ projects: ProjectSummary[] }>("/api/projects", fetcher);
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-white">
+      <main className="mx-auto flex w-full max-w-4xl flex-col gap-8 px-6 py-12">
+        <header className="space-y-3">
+          <Link href="/" className="text-sm text-slate-400 transition hover:text-white">
+            ← Back to projects
+          </Link>
+          <p className="text-sm uppercase tracking-[0.4em] text-slate-500">Settings</p>
+          <h1 className="text-4xl font-semibold">Projects</h1>
+          <p className="text-sm text-slate-400">
+            Rename projects, merge paths that belong together, hide the ones you never want to see and mask secrets.
+          </p>
+        </header>
+
+        {error && <ErrorBanner message="Unable to load settings" />}
+        {!data && !error && <Placeholder text="Loading settings…" />}
+        {data && (
+          <SettingsForm
+            config={data.config}
+            projects={projectsData?.projects ?? []}
+            onSaved={(config) => mutate({ config }, { revalidate: false })}
+          />
+        )}
+      </main>
+    </div>
+  );
+}
+
+function SettingsForm({
+  config,
+  projects,
+  onSaved,
+}: {
+  config: ViewerConfig;
+  projects: ProjectSummary[];
+  onSaved: (config: ViewerConfig) => void;
+}) {
+  const [renames, setRenames] = useState<RenameRow[]>(
+    Object.entries(config.projects.rename).map(([key, name]) => ({ key, name }))
+  );
+  const [merges, setMerges] = useState<MergeRow[]>(
+    config.projects.merge.map((entry) => ({ name: entry.name, paths: entry.paths.join("\n") }))
+  );
+  const [hide, setHide] = useState(config.projects.hide.join("\n"));
+  const [redactionPatterns, setRedactionPatterns] = useState(config.redaction.patterns.join("\n"));
+  const [status, setStatus] = useState<{ kind: "saving" | "saved" | "error"; message?: string } | null>(null);
+
+  const save = async () => {
+    const next: ViewerConfig = {
+      projects: {
+        rename: Object.fromEntries(
+          renames.filter((row) => row.key.trim() && row.name.trim()).map((row) => [row.key.trim(), row.name.trim()])
+        ),
+        merge: merges
+          .map((row) => ({ name: row.name.trim(), paths: lines(row.paths) }))
+          .filter((row) => row.name && row.paths.length),
+        hide: lines(hide),
+      },
+      redaction: { patterns: lines(redactionPatterns) },
+    };
+    setStatus({ kind: "saving" });
+    try {
+      const response = await fetch("/api/settings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(next),
+      });
+      const body = await response.json();
+      if (!response.ok) throw new Error(body.error ?? "Failed to save settings");
+      setStatus({ kind: "saved" });
+      onSaved(body.config);
+    } catch (saveError) {
+      setStatus({ kind: "error", message: saveError instanceof Error ? saveError.message : "Failed to save settings" });
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-6">
+      <datalist id="known-projects">
+        {projects.flatMap((project) => [
+          <option key={`${project.id}-id`} value={project.id}>
+            {project.name}
+          </option>,
+          <option key={`${project.id}-path`} value={project.path}>
+            {project.name}
+          </option>,
+        ])}
+      </datalist>
+
+      <section className="space-y-3 rounded-3xl border border-white/5 bg-white/5 p-5">
+        <div>
+          <h2 className="text-lg font-semibold">Rename</h2>
+          <p className="text-sm text-slate-400">Display names keyed by project id or path.</p>
+        </div>
+        {renames.map((row, index) => (
+          <div key={index} className="flex flex-wrap items-center gap-2 sm:flex-nowrap">
+            <input
+              className={inputClass}
+              list="known-projects"
+              placeholder="Project id or path"
+              value={row.key}
+              onChange={(event) =>
+                setRenames(renames.map((item, idx) => (idx === index ? { ...item, key: event.target.value } : item)))
+              }
+            />
+            <input
+              className={inputClass}
+              placeholder="Display name"
+              value={row.name}
+              onChange={(event) =>
+                setRenames(renames.map((item, idx) => (idx === index ? { ...item, name: event.target.value } : item)))
+              }
+            />
+            <button
+              type="button"
+              className={buttonClass}
+              onClick={() => setRenames(renames.filter((_, idx) => idx !== index))}
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+        <button type="button" className={buttonClass} onClick={() => setRenames([...renames, { key: "", name: "" }])}>
+          Add rename
+        </button>
+      </section>
+
+      <section className="space-y-3 rounded-3xl border border-white/5 bg-white/5 p-5">
+        <div>
+          <h2 className="text-lg font-semibold">Merge</h2>
+          <p className="text-sm text-slate-400">
+            Sessions from any of the listed paths or globs, one per line, show up as a single project.
+          </p>
+        </div>
+        {merges.map((row, index) => (
+          <div key={index} className="space-y-2 rounded-2xl border border-white/5 p-3">
+            <div className="flex items-center gap-2">
+              <input
+                className={inputClass}
+                placeholder="Project name"
+                value={row.name}
+                onChange={(event) =>
+                  setMerges(merges.map((item, idx) => (idx === index ? { ...item, name: event.target.value } : item)))
+                }
+              />
+              <button
+                type="button"
+                className={buttonClass}
+                onClick={() => setMerges(merges.filter((_, idx) => idx !== index))}
+              >
+                Remove
+              </button>
+            </div>
+            <textarea
+              className={`${inputClass} font-mono`}
+              rows={3}
+              placeholder={"/old/location/app\n/home/me/src/app"}
+              value={row.paths}
+              onChange={(event) =>
+                setMerges(merges.map((item, idx) => (idx === index ? { ...item, paths: event.target.value } : item)))
+              }
+            />
+          </div>
+        ))}
+        <button type="button" className={buttonClass} onClick={() => setMerges([...merges, { name: "", paths: "" }])}>
+          Add merge
+        </button>
+      </section>
+
+      <section className="space-y-3 rounded-3xl border border-white/5 bg-white/5 p-5">
+        <div>
+          <h2 className="text-lg font-semibold">Hide</h2>
+          <p className="text-sm text-slate-400">
+            Globs matched against project paths and ids, one per line. <code>*</code> stays within a directory,{" "}
+            <code>**</code> crosses them.
+          </p>
+        </div>
+        <textarea
+          className={`${inputClass} font-mono`}
+          rows={4}
+          placeholder={"/tmp/**\nscratch-*"}
+          value={hide}
+          onChange={(event) => setHide(event.target.value)}
+        />
+      </section>
+
+      <section className="space-y-3 rounded-3xl border border-white/5 bg-white/5 p-5">
+        <div>
+          <h2 className="text-lg font-semibold">Redaction</h2>
+          <p className="text-sm text-slate-400">
+            Regular expressions masked in messages and tool output, one per line, on top of the built-in API key,
+            token and password patterns. Exports are always redacted.
+          </p>
+        </div>
+        <textarea
+          className={`${inputClass} font-mono`}
+          rows={4}
+          placeholder={"acme_[a-z0-9]{32}\ninternal\\.example\\.com"}
+          value={redactionPatterns}
+          onChange={(event) => setRedactionPatterns(event.target.value)}
+        />
+      </section>
+
+      <div className="flex items-center gap-4">
+        <button
+          type="button"
+          onClick={save}
+          disabled={status?.kind === "saving"}
+          className="rounded-full bg-emerald-400 px-5 py-2 text-sm font-semibold text-slate-950 transition hover:bg-emerald-300 disabled:opacity-60"
+        >
+          {status?.kind === "saving" ? "Saving…" : "Save"}
+        </button>
+        {status?.kind === "saved" && <span className="text-sm text-emerald-300">Saved</span>}
+        {status?.kind === "error" && <span className="text-sm text-rose-300">{status.message}</span>}
+      </div>
+    </div>
+  );
+}
@@ -9,11 +9,14 @@ import {
   YAxis,
   Scatter,
   Legend,
+  Line,
   ReferenceLine,
 } from "recharts";
 import type { TokenDelta, TokenTimelinePoint, ToolCall } from "@/lib/codex";
 import { useMemo, useState } from "react";
 import clsx from "clsx";
+import { formatCost, formatDuration, formatToolOutcome, isFailedToolCall } from "@/lib/formatters";
+import type { ToolCallInsight } from "@/lib/sessionTimeline";
 
 const palette = {
   cached: "#818cf8",
@@ -22,6 +25,8 @@ const palette = {
   reasoning: "#facc15",
 };
 
+const FAILED_TOOL_COLOR = "#f43f5e";
+
 export const TOKEN_SERIES_META: Array<{ key: TokenSeriesKey; label: string; color: string }> = [
   { key: "cached", label: "Reused (cached)", color: palette.cached },
   { key: "user", label: "User", color: palette.user },
@@ -29,12 +34,6 @@ export const TOKEN_SERIES_META: Array<{ key: TokenSeriesKey; label: string; colo
   { key: "reasoning", label: "Reasoning", color: palette.reasoning },
 ];
 
-export type ToolCallInsight = {
-  anchorTimestamp: number | null;
-  eventTimestamp: number | null;
-  deltaTokens: TokenDelta | null;
-};
-
 const formatTime = (value: number) => {
   const date = new Date(value);
   return date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit", second: "2-digit" });
@@ -62,6 +61,7 @@ type ChartDatum = {
   reasoning: number;
   total: number;
   contextWindow?: number;
+  cost?: number | null;
 };
 
 type ContextRange = { before: number; after: number };
@@ -72,6 +72,7 @@ type ToolMarker = {
   displayTime: number | null;
   name: string;
   status: string;
+  failed: boolean;
   callId: string;
   infoSnippet?: string | null;
   contextDelta?: TokenDelta | null;
@@ -105,6 +106,7 @@ export function TokenTimelineChart({
         reasoning: point.reasoningTokens,
         total: point.totalTokens,
         contextWindow: point.contextWindow,
+        cost: point.cost,
       })),
     [timeline]
   );
@@ -141,7 +143,8 @@ export function TokenTimelineChart({
             time,
             displayTime: displayMs ?? time,
             name: call.name,
-            status: call.status,
+            status: formatToolOutcome(call),
+            failed: isFailedToolCall(call),
             callId: call.id,
             infoSnippet: pickSnippet(call),
             contextDelta: delta,
@@ -275,8 +278,15 @@ export function TokenTimelineChart({
             data={toolMarkers}
             fill="#fb923c"
             name="Tool call"
-            shape={(props: { cx?: number; cy?: number }) => (
-              <circle cx={props.cx} cy={props.cy} r={5} fill="#fb923c" stroke="#fff" strokeWidth={1.5} />
+            shape={(props: { cx?: number; cy?: number; payload?: ToolMarker }) => (
+              <circle
+                cx={props.cx}
+                cy={props.cy}
+                r={5}
+                fill={props.payload?.failed ? FAILED_TOOL_COLOR : "#fb923c"}
+                stroke="#fff"
+                strokeWidth={1.5}
+              />
             )}
           />
         </ComposedChart>
@@ -331,6 +341,9 @@ const TokenTooltip = ({ active, payload, hiddenSeries, fallbackPoint, fallbackTo
               </div>
             ))}
           </div>
+          {point.cost !== undefined && (
+            <p className="mt-2 text-xs text-slate-400">Cost so far: {formatCost(point.cost)}</p>
+          )}
           {typeof point.contextWindow === "number" && (
             <p className="mt-2 text-xs text-slate-400">Context window: {point.contextWindow.toLocaleString()}</p>
           )}
@@ -343,7 +356,14 @@ const TokenTooltip = ({ active, payload, hiddenSeries, fallbackPoint, fallbackTo
                 <span className="font-semibold text-white">{toolCall.name}</span>
                 {toolCall.displayTime && <span className="text-xs text-slate-400">{formatTime(toolCall.displayTime)}</span>}
               </div>
-              <p className="text-[11px] uppercase tracking-[0.2em] text-slate-500">Status: {toolCall.status}</p>
+              <p
+                className={clsx(
+                  "text-[11px] uppercase tracking-[0.2em]",
+                  toolCall.failed ? "text-rose-300" : "text-slate-500"
+                )}
+              >
+                Status: {toolCall.status}
+              </p>
               {toolContextText && <p className="mt-1 text-xs text-slate-200">Context {toolContextText}</p>}
               {toolCall.infoSnippet && (
                 <div className="mt-2 max-h-28 overflow-y-auto rounded-xl bg-black/40 px-3 py-2 text-[11px] text-slate-100">
@@ -356,6 +376,89 @@ const TokenTooltip = ({ active, payload, hiddenSeries, fallbackPoint, fallbackTo
   );
 };
 
+export const COMPARISON_COLORS = ["#34d399", "#38bdf8", "#f472b6", "#facc15", "#a78bfa", "#fb923c"];
+
+export type ComparisonSeries = {
+  key: string;
+  label: string;
+  timeline: TokenTimelinePoint[];
+};
+
+type ComparisonDatum = { elapsed: number } & Record<string, number | undefined>;
+
+// Cumulative model tokens per session against time since each session's
+// first token_count, so runs that happened days apart line up.
+export function TokenComparisonChart({ series, className }: { series: ComparisonSeries[]; className?: string }) {
+  const chartData = useMemo(() => {
+    const offsets = series.map((item) => {
+      const sorted = [...item.timeline].sort((a, b) => a.timestampMs - b.timestampMs);
+      const start = sorted[0]?.timestampMs ?? 0;
+      return sorted.map((point) => ({ elapsed: point.timestampMs - start, total: point.totalTokens }));
+    });
+    const times = Array.from(new Set(offsets.flatMap((points) => points.map((point) => point.elapsed)))).sort(
+      (a, b) => a - b
+    );
+    const cursors = offsets.map(() => 0);
+    return times.map<ComparisonDatum>((elapsed) => {
+      const datum: ComparisonDatum = { elapsed };
+      offsets.forEach((points, index) => {
+        // Carry the running total forward until the session ends.
+        while (cursors[index] < points.length && points[cursors[index]].elapsed <= elapsed) cursors[index] += 1;
+        if (cursors[index] > 0 && elapsed <= points[points.length - 1].elapsed) {
+          datum[series[index].key] = points[cursors[index] - 1].total;
+        }
+      });
+      return datum;
+    });
+  }, [series]);
+
+  if (!chartData.length) {
+    return (
+      <div className="rounded-2xl border border-white/5 bg-white/5 p-6 text-sm text-slate-200">
+        None of these sessions reported token usage yet.
+      </div>
+    );
+  }
+
+  return (
+    <div className={clsx("h-[360px] w-full", className)}>
+      <ResponsiveContainer width="100%" height="100%">
+        <ComposedChart data={chartData} margin={{ left: 0, right: 20, top: 10, bottom: 10 }}>
+          <XAxis
+            dataKey="elapsed"
+            type="number"
+            tickFormatter={(value: number) => formatDuration(value)}
+            stroke="#cbd5f5"
+            tick={{ fill: "#cbd5f5" }}
+            domain={[0, "dataMax"]}
+          />
+          <YAxis stroke="#cbd5f5" tick={{ fill: "#cbd5f5" }} width={70} />
+          <Tooltip
+            isAnimationActive={false}
+            cursor={{ stroke: "#94a3b8", strokeDasharray: "4 4" }}
+            contentStyle={{ background: "rgba(2, 6, 23, 0.9)", border: "1px solid rgba(255,255,255,0.1)", borderRadius: 12 }}
+            labelFormatter={(value) => `+${formatDuration(Number(value))}`}
+            formatter={(value) => Number(value).toLocaleString()}
+          />
+          <Legend wrapperStyle={{ color: "#cbd5f5" }} />
+          {series.map((item, index) => (
+            <Line
+              key={item.key}
+              dataKey={item.key}
+              name={item.label}
+              type="stepAfter"
+              stroke={COMPARISON_COLORS[index % COMPARISON_COLORS.length]}
+              strokeWidth={2}
+              dot={false}
+              isAnimationActive={false}
+            />
+          ))}
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
+
 const isChartDatum = (value: unknown): value is ChartDatum => {
   return Boolean(value && typeof value === "object" && "total" in value);
 };
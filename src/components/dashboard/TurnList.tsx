@@ -0,0 +1,119 @@
+"use client";
+
+import clsx from "clsx";
+import { useMemo, useState } from "react";
+import type { ChatMessage, ToolCall, Turn, TurnOutcome } from "@/lib/codex";
+import { formatCost, formatDate, formatDuration, formatToolOutcome, isFailedToolCall } from "@/lib/formatters";
+import { Placeholder } from "@/components/ui/Feedback";
+
+const OUTCOME_META: Record<TurnOutcome, { label: string; className: string }> = {
+  completed: { label: "Completed", className: "border-emerald-300/30 text-emerald-200" },
+  aborted: { label: "Aborted", className: "border-amber-300/30 text-amber-200" },
+  errored: { label: "Errored", className: "border-rose-400/40 text-rose-300" },
+  in_progress: { label: "In progress", className: "border-sky-300/30 text-sky-200" },
+};
+
+type TurnEntry =
+  | { kind: "message"; timestamp: string; message: ChatMessage }
+  | { kind: "tool"; timestamp: string; call: ToolCall };
+
+export const TurnList = ({
+  turns,
+  messages,
+  toolCalls,
+}: {
+  turns: Turn[];
+  messages: ChatMessage[];
+  toolCalls: ToolCall[];
+}) => {
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({});
+  const messageById = useMemo(() => new Map(messages.map((message) => [message.id, message])), [messages]);
+  const callById = useMemo(() => new Map(toolCalls.map((call) => [call.id, call])), [toolCalls]);
+
+  const entriesFor = (turn: Turn): TurnEntry[] => {
+    const entries: TurnEntry[] = [];
+    for (const id of turn.messageIds) {
+      const message = messageById.get(id);
+      if (message) entries.push({ kind: "message", timestamp: message.timestamp, message });
+    }
+    for (const id of turn.toolCallIds) {
+      const call = callById.get(id);
+      if (call) entries.push({ kind: "tool", timestamp: call.startedAt ?? turn.startedAt, call });
+    }
+    return entries.sort((a, b) => (a.timestamp > b.timestamp ? 1 : -1));
+  };
+
+  return (
+    <div className="rounded-[32px] border border-white/5 bg-white/5 p-6">
+      <div className="mb-4 flex items-center justify-between">
+        <p className="text-sm font-semibold text-white">Turns</p>
+        <p className="text-xs text-slate-400">{turns.length} turns</p>
+      </div>
+      {!turns.length && <Placeholder text="No turns recorded yet." />}
+      <div className="space-y-3">
+        {turns.map((turn) => {
+          const open = Boolean(expanded[turn.id]);
+          const outcome = OUTCOME_META[turn.outcome];
+          return (
+            <div key={turn.id} className="rounded-2xl border border-white/5 bg-slate-950/40">
+              <button
+                type="button"
+                onClick={() => setExpanded((current) => ({ ...current, [turn.id]: !current[turn.id] }))}
+                className="flex w-full flex-col gap-2 px-4 py-3 text-left"
+                aria-expanded={open}
+              >
+                <div className="flex flex-wrap items-center gap-3 text-xs text-slate-400">
+                  <span className="uppercase tracking-[0.3em] text-slate-500">Turn {turn.index}</span>
+                  <span className={clsx("rounded-full border px-2 py-0.5", outcome.className)} title={turn.outcomeReason}>
+                    {outcome.label}
+                  </span>
+                  <span>{formatDate(turn.startedAt)}</span>
+                  <span>{formatDuration(turn.durationMs)}</span>
+                  <span>{turn.tokens.totalTokens.toLocaleString()} tokens</span>
+                  <span>{formatCost(turn.cost)}</span>
+                  <span>{turn.toolCallIds.length} tool calls</span>
+                  <span className="ml-auto text-slate-500">{open ? "Hide" : "Show"}</span>
+                </div>
+                <p className="line-clamp-2 text-sm text-white">{turn.prompt || "(no prompt logged)"}</p>
+                {turn.outcomeReason && turn.outcome !== "completed" && (
+                  <p className="text-xs text-slate-500">{turn.outcomeReason}</p>
+                )}
+              </button>
+              {open && (
+                <div className="space-y-2 border-t border-white/5 px-4 py-3">
+                  {entriesFor(turn).map((entry) =>
+                    entry.kind === "message" ? (
+                      <div key={entry.message.id} className="text-sm">
+                        <span className="mr-2 text-xs uppercase tracking-[0.3em] text-slate-500">
+                          {entry.message.kind === "reasoning" ? "reasoning" : entry.message.role}
+                        </span>
+                        <span
+                          className={clsx(
+                            "whitespace-pre-line",
+                            entry.message.kind === "text" ? "text-white" : "text-slate-400"
+                          )}
+                        >
+                          {entry.message.text}
+                        </span>
+                      </div>
+                    ) : (
+                      <div key={entry.call.id} className="text-sm text-slate-300">
+                        <span className="mr-2 text-xs uppercase tracking-[0.3em] text-slate-500">tool</span>
+                        {entry.call.name}
+                        <span
+                          className={clsx("ml-2 text-xs", isFailedToolCall(entry.call) ? "text-rose-300" : "text-slate-500")}
+                        >
+                          {formatToolOutcome(entry.call)} · {formatDuration(entry.call.durationMs)}
+                        </span>
+                      </div>
+                    )
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,38 @@
+import clsx from "clsx";
+
+type FilterOption = { value: string; label: string };
+
+export const FilterPills = ({
+  label,
+  options,
+  value,
+  onChange,
+  allLabel = "All",
+}: {
+  label: string;
+  options: FilterOption[];
+  value: string | null;
+  onChange: (value: string | null) => void;
+  allLabel?: string;
+}) => (
+  <div className="flex flex-wrap items-center gap-2">
+    <span className="text-xs uppercase tracking-[0.3em] text-slate-500">{label}</span>
+    {[{ value: null, label: allLabel } as { value: string | null; label: string }, ...options].map((option) => {
+      const active = option.value === value;
+      return (
+        <button
+          key={option.value ?? "__all"}
+          type="button"
+          onClick={() => onChange(option.value)}
+          className={clsx(
+            "rounded-full border px-3 py-1 text-xs font-semibold transition",
+            active ? "border-white/40 bg-white/10 text-white" : "border-white/10 bg-transparent text-slate-400"
+          )}
+          aria-pressed={active}
+        >
+          {option.label}
+        </button>
+      );
+    })}
+  </div>
+);
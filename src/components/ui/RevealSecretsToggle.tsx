@@ -0,0 +1,25 @@
+import clsx from "clsx";
+
+export const RevealSecretsToggle = ({
+  revealed,
+  onChange,
+  className,
+}: {
+  revealed: boolean;
+  onChange: (revealed: boolean) => void;
+  className?: string;
+}) => (
+  <button
+    type="button"
+    onClick={() => onChange(!revealed)}
+    className={clsx(
+      "rounded-full border px-3 py-1 text-xs font-semibold transition",
+      revealed ? "border-amber-300/60 text-amber-200" : "border-white/10 text-slate-400 hover:text-white",
+      className
+    )}
+    aria-pressed={revealed}
+    title="Secrets are masked by default; exports stay masked either way."
+  >
+    {revealed ? "Secrets shown" : "Secrets masked"}
+  </button>
+);
@@ -0,0 +1,371 @@
+import path from "path";
+import os from "os";
+import type {
+  ChatMessage,
+  SessionConfig,
+  SessionConfigChange,
+  TokenTimelinePoint,
+  ToolCall,
+  TurnMarker,
+} from "../codex";
+import {
+  composePreview,
+  extractText,
+  logBaseName,
+  mergeConfig,
+  pushConfigChange,
+  snapshotFromUsage,
+  sortToolCalls,
+  toRecord,
+  type JsonRecord,
+  type TokenSnapshot,
+  type TokenUsage,
+} from "./shared";
+import type { LogRecord, SessionAdapter } from "./types";
+
+interface ClaudeUsage {
+  input_tokens?: number;
+  cache_creation_input_tokens?: number;
+  cache_read_input_tokens?: number;
+  output_tokens?: number;
+}
+
+interface ClaudeMessage extends JsonRecord {
+  id?: string;
+  role?: string;
+  model?: string;
+  content?: unknown;
+  stop_reason?: string | null;
+  usage?: ClaudeUsage;
+}
+
+interface ClaudeRecord {
+  type?: string;
+  timestamp?: string;
+  cwd?: string;
+  isMeta?: boolean;
+  isSidechain?: boolean;
+  version?: string;
+  permissionMode?: string;
+  isApiErrorMessage?: boolean;
+  message?: ClaudeMessage;
+}
+
+type ClaudeState = {
+  cwd?: string;
+  preview: string;
+  startedAt: string;
+  lastActivityAt: string;
+  // Any JSONL has timestamps; only conversation records make it a transcript.
+  hasMessages: boolean;
+  tokens: TokenUsage | null;
+  lastMessageId?: string;
+  lastUsage?: TokenUsage;
+  toolCalls: Set<string>;
+  config: SessionConfig;
+};
+
+const SESSION_FILE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const usageFromClaude = (usage?: ClaudeUsage): TokenUsage | null => {
+  if (!usage) return null;
+  const cached = usage.cache_read_input_tokens ?? 0;
+  const input = (usage.input_tokens ?? 0) + (usage.cache_creation_input_tokens ?? 0) + cached;
+  const output = usage.output_tokens ?? 0;
+  return {
+    input_tokens: input,
+    cached_input_tokens: cached,
+    output_tokens: output,
+    reasoning_output_tokens: 0,
+    total_tokens: input + output,
+  };
+};
+
+const addUsage = (a: TokenUsage | null, b: TokenUsage, sign = 1): TokenUsage => ({
+  input_tokens: (a?.input_tokens ?? 0) + sign * b.input_tokens,
+  cached_input_tokens: (a?.cached_input_tokens ?? 0) + sign * b.cached_input_tokens,
+  output_tokens: (a?.output_tokens ?? 0) + sign * b.output_tokens,
+  reasoning_output_tokens: (a?.reasoning_output_tokens ?? 0) + sign * b.reasoning_output_tokens,
+  total_tokens: (a?.total_tokens ?? 0) + sign * b.total_tokens,
+});
+
+const contentBlocks = (content: unknown): JsonRecord[] =>
+  Array.isArray(content) ? content.map(toRecord).filter((block): block is JsonRecord => Boolean(block)) : [];
+
+const userText = (record: ClaudeRecord): string => {
+  const content = record.message?.content;
+  if (typeof content === "string") return content.trim();
+  return extractText(contentBlocks(content).filter((block) => block.type === "text"));
+};
+
+const resultText = (content: unknown): string => {
+  if (typeof content === "string") return content;
+  return extractText(contentBlocks(content).filter((block) => block.type === "text"));
+};
+
+const timestampOf = (record: ClaudeRecord) =>
+  typeof record.timestamp === "string" ? record.timestamp : new Date(0).toISOString();
+
+const asRecords = (records: LogRecord[]) => records as ClaudeRecord[];
+
+// Claude Code has no sandbox setting; its permission mode plays the role of
+// the approval policy.
+const configFromRecord = (record: ClaudeRecord): SessionConfig => ({
+  model: record.type === "assistant" && record.message?.model !== "<synthetic>" ? record.message?.model : undefined,
+  approvalPolicy: record.permissionMode,
+  cliVersion: record.version,
+});
+
+function applyRecords(state: ClaudeState, records: ClaudeRecord[]) {
+  for (const record of records) {
+    if (record.isSidechain) continue;
+    if (typeof record.timestamp === "string") {
+      state.lastActivityAt = record.timestamp;
+      if (!state.startedAt) state.startedAt = record.timestamp;
+    }
+    if (typeof record.cwd === "string" && !state.cwd) {
+      state.cwd = record.cwd;
+    }
+    state.config = mergeConfig(state.config, configFromRecord(record));
+    if ((record.type === "user" || record.type === "assistant") && record.message) {
+      state.hasMessages = true;
+    }
+
+    if (record.type === "user" && !record.isMeta && !state.preview) {
+      const text = userText(record);
+      if (text) state.preview = composePreview(text);
+    }
+
+    if (record.type === "assistant" && record.message) {
+      for (const block of contentBlocks(record.message.content)) {
+        if (block.type === "tool_use" && typeof block.id === "string") {
+          state.toolCalls.add(block.id);
+        }
+      }
+      const usage = usageFromClaude(record.message.usage);
+      if (usage) {
+        // One API response is logged as one record per content block, each
+        // repeating the usage, so only the latest copy of a message counts.
+        if (record.message.id && record.message.id === state.lastMessageId && state.lastUsage) {
+          state.tokens = addUsage(state.tokens, state.lastUsage, -1);
+        }
+        state.tokens = addUsage(state.tokens, usage);
+        state.lastMessageId = record.message.id;
+        state.lastUsage = usage;
+      }
+    }
+  }
+}
+
+function buildMessages(records: ClaudeRecord[], startIndex = 0): ChatMessage[] {
+  const messages: ChatMessage[] = [];
+  const nextIndex = () => startIndex + messages.length;
+  for (const record of records) {
+    if (record.isSidechain || !record.message) continue;
+    const timestamp = timestampOf(record);
+    if (record.type === "user") {
+      if (record.isMeta) continue;
+      const text = userText(record);
+      if (!text) continue;
+      messages.push({ id: `${timestamp}-message-${nextIndex()}`, timestamp, role: "user", kind: "text", text });
+      continue;
+    }
+    if (record.type === "assistant") {
+      for (const block of contentBlocks(record.message.content)) {
+        if (block.type === "text" && typeof block.text === "string" && block.text.trim()) {
+          messages.push({
+            id: `${timestamp}-message-${nextIndex()}`,
+            timestamp,
+            role: "assistant",
+            kind: "text",
+            text: block.text.trim(),
+          });
+        }
+        if (block.type === "thinking") {
+          messages.push({
+            id: `${timestamp}-reasoning-${nextIndex()}`,
+            timestamp,
+            role: "assistant",
+            kind: "reasoning",
+            text: typeof block.thinking === "string" && block.thinking.trim() ? block.thinking.trim() : "Reasoning log hidden",
+          });
+        }
+      }
+    }
+  }
+  return messages.sort((a, b) => (a.timestamp > b.timestamp ? 1 : -1));
+}
+
+function buildToolCalls(records: ClaudeRecord[], seed: ToolCall[] = []): ToolCall[] {
+  const calls = new Map<string, ToolCall>(seed.map((call) => [call.id, call]));
+  for (const record of records) {
+    if (record.isSidechain || !record.message) continue;
+    const timestamp = typeof record.timestamp === "string" ? record.timestamp : undefined;
+    for (const block of contentBlocks(record.message.content)) {
+      if (block.type === "tool_use" && typeof block.id === "string") {
+        const existing = calls.get(block.id) ?? {
+          id: block.id,
+          name: typeof block.name === "string" ? block.name : "tool_use",
+          toolKind: "function" as const,
+          status: "in_progress",
+        };
+        if (block.input !== undefined) {
+          existing.input = typeof block.input === "string" ? block.input : JSON.stringify(block.input);
+        }
+        existing.startedAt = existing.startedAt ?? timestamp;
+        calls.set(block.id, existing);
+      }
+      if (block.type === "tool_result" && typeof block.tool_use_id === "string") {
+        const existing = calls.get(block.tool_use_id);
+        if (!existing) continue;
+        existing.output = resultText(block.content);
+        existing.completedAt = timestamp ?? existing.completedAt;
+        existing.status = "completed";
+        if (block.is_error === true) {
+          existing.metadata = { ...existing.metadata, is_error: true };
+        }
+      }
+    }
+  }
+
+  const finalized = Array.from(calls.values()).map((call) => {
+    if (call.startedAt && call.completedAt) {
+      call.durationMs = new Date(call.completedAt).getTime() - new Date(call.startedAt).getTime();
+    }
+    return call;
+  });
+  return sortToolCalls(finalized);
+}
+
+const usageFromSnapshot = (snapshot: TokenSnapshot): TokenUsage => ({
+  input_tokens: snapshot.inputTokens,
+  cached_input_tokens: snapshot.cachedTokens,
+  output_tokens: snapshot.outputTokens,
+  reasoning_output_tokens: snapshot.reasoningTokens,
+  total_tokens: snapshot.totalTokens,
+});
+
+// `previous` is the last point of an earlier chunk; its message lets a response
+// whose copies straddle the chunk boundary be replaced rather than counted twice.
+function buildTokenTimeline(records: ClaudeRecord[], previous?: TokenTimelinePoint): TokenTimelinePoint[] {
+  const points: TokenTimelinePoint[] = [];
+  let totals: TokenUsage | null = previous ? usageFromSnapshot(previous) : null;
+  let lastMessageId = previous?.message?.id;
+  let lastUsage = previous?.message ? usageFromSnapshot(previous.message.usage) : undefined;
+
+  for (const record of records) {
+    if (record.type !== "assistant" || record.isSidechain || !record.message) continue;
+    const usage = usageFromClaude(record.message.usage);
+    if (!usage) continue;
+    const repeated = Boolean(record.message.id && record.message.id === lastMessageId && lastUsage);
+    let delta = usage;
+    if (repeated && lastUsage) {
+      totals = addUsage(totals, lastUsage, -1);
+      // The earlier copy's point is replaced; when it went out with an earlier
+      // chunk it can't be, so only the change since then is new.
+      const replaced = points.pop();
+      delta = addUsage(usage, lastUsage, -1);
+      if (replaced?.delta) delta = addUsage(delta, usageFromSnapshot(replaced.delta));
+    }
+    totals = addUsage(totals, usage);
+    lastMessageId = record.message.id;
+    lastUsage = usage;
+
+    const timestamp = timestampOf(record);
+    const snapshot = snapshotFromUsage(totals);
+    points.push({
+      timestamp,
+      timestampMs: new Date(timestamp).getTime(),
+      ...snapshot,
+      delta: snapshotFromUsage(delta),
+      message: record.message.id ? { id: record.message.id, usage: snapshotFromUsage(usage) } : undefined,
+    });
+  }
+  return points.sort((a, b) => a.timestampMs - b.timestampMs);
+}
+
+function buildConfigHistory(records: ClaudeRecord[], previous: SessionConfig = {}): SessionConfigChange[] {
+  const history: SessionConfigChange[] = [];
+  let current = previous;
+  for (const record of records) {
+    if (record.isSidechain) continue;
+    current = pushConfigChange(history, current, configFromRecord(record), timestampOf(record));
+  }
+  return history;
+}
+
+const INTERRUPTED = "[Request interrupted by user";
+
+function buildTurnMarkers(records: ClaudeRecord[]): TurnMarker[] {
+  const markers: TurnMarker[] = [];
+  for (const record of records) {
+    if (record.isSidechain || record.isMeta || !record.message || typeof record.timestamp !== "string") continue;
+    const timestamp = record.timestamp;
+    if (record.type === "user") {
+      const text = userText(record);
+      if (text.startsWith(INTERRUPTED)) {
+        markers.push({ timestamp, kind: "aborted", reason: "interrupted" });
+      } else if (text) {
+        markers.push({ timestamp, kind: "start", prompt: text });
+      }
+    }
+    if (record.type === "assistant") {
+      if (record.isApiErrorMessage) {
+        const reason = extractText(contentBlocks(record.message.content).filter((block) => block.type === "text"));
+        markers.push({ timestamp, kind: "errored", reason: reason || undefined });
+      } else if (record.message.stop_reason === "end_turn") {
+        markers.push({ timestamp, kind: "completed" });
+      }
+    }
+  }
+  return markers;
+}
+
+export const claudeAdapter: SessionAdapter<ClaudeState> = {
+  id: "claude",
+  label: "Claude Code",
+  extensions: [".jsonl", ".jsonl.gz"],
+  defaultRoot: () =>
+    path.join(process.env.CLAUDE_CONFIG_DIR ?? path.join(os.homedir(), ".claude"), "projects"),
+  sessionsDir: (rootPath) => rootPath,
+  sessionIdFromPath: (filePath) => {
+    const base = logBaseName(filePath);
+    return SESSION_FILE.test(base) ? base : null;
+  },
+
+  createState: () => ({
+    cwd: undefined,
+    preview: "",
+    startedAt: "",
+    lastActivityAt: "",
+    hasMessages: false,
+    tokens: null,
+    toolCalls: new Set<string>(),
+    config: {},
+  }),
+  applyRecords: (state, records) => applyRecords(state, asRecords(records)),
+  summarize: (state) => {
+    if (!state.startedAt || !state.hasMessages) return null;
+    return {
+      cwd: state.cwd,
+      startedAt: state.startedAt,
+      lastActivityAt: state.lastActivityAt || state.startedAt,
+      preview: state.preview || "(no prompt logged)",
+      tokens: state.tokens,
+      toolCallCount: state.toolCalls.size,
+      config: state.config,
+    };
+  },
+
+  buildMessages: (records, startIndex) => buildMessages(asRecords(records), startIndex),
+  buildToolCalls: (records, seed) => buildToolCalls(asRecords(records), seed),
+  buildTokenTimeline: (records, previous) => buildTokenTimeline(asRecords(records), previous),
+  toolCallIds: (records) =>
+    asRecords(records).flatMap((record) =>
+      contentBlocks(record.message?.content)
+        .map((block) => (block.type === "tool_use" ? block.id : block.type === "tool_result" ? block.tool_use_id : undefined))
+        .filter((callId): callId is string => typeof callId === "string")
+    ),
+  buildConfigHistory: (records, previous) => buildConfigHistory(asRecords(records), previous),
+  buildTurnMarkers: (records) => buildTurnMarkers(asRecords(records)),
+};
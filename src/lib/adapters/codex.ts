@@ -0,0 +1,428 @@
+import path from "path";
+import type {
+  ChatMessage,
+  SessionConfig,
+  SessionConfigChange,
+  TokenTimelinePoint,
+  ToolCall,
+  TurnMarker,
+} from "../codex";
+import {
+  composePreview,
+  extractText,
+  logBaseName,
+  mergeConfig,
+  pushConfigChange,
+  safeParse,
+  snapshotFromUsage,
+  sortToolCalls,
+  toRecord,
+  type JsonRecord,
+  type TokenUsage,
+} from "./shared";
+import type { LogRecord, SessionAdapter } from "./types";
+
+type TokenInfo = {
+  total_token_usage: TokenUsage;
+  last_token_usage?: TokenUsage;
+  model_context_window?: number;
+};
+
+interface CodexEvent {
+  timestamp?: string;
+  type?: string;
+  payload?: JsonRecord | null;
+}
+
+interface SessionMetaPayload extends JsonRecord {
+  id?: string;
+  timestamp?: string;
+  cwd?: string;
+  model_provider?: string;
+  cli_version?: string;
+}
+
+interface TurnContextPayload extends JsonRecord {
+  model?: string;
+  effort?: string;
+  approval_policy?: string;
+  sandbox_policy?: unknown;
+}
+
+interface ResponsePayload extends JsonRecord {
+  type?: string;
+  role?: string;
+  content?: unknown;
+  call_id?: string;
+  name?: string;
+  status?: string;
+  input?: string;
+  arguments?: string;
+  output?: unknown;
+  summary?: unknown;
+}
+
+interface TokenPayload extends JsonRecord {
+  type?: string;
+  info?: TokenInfo | null;
+}
+
+type CodexState = {
+  meta: SessionMetaPayload | null;
+  preview: string;
+  startedAt: string;
+  lastActivityAt: string;
+  tokens: TokenUsage | null;
+  contextWindow?: number;
+  toolCalls: Set<string>;
+  config: SessionConfig;
+};
+
+const extractSessionId = (filePath: string): string | null => {
+  const base = logBaseName(filePath);
+  const match = base.match(/rollout-\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-(.+)/);
+  return match?.[1] ?? null;
+};
+
+const stringOrUndefined = (value: unknown) => (typeof value === "string" && value ? value : undefined);
+
+const configFromMeta = (payload: SessionMetaPayload): SessionConfig => ({
+  modelProvider: stringOrUndefined(payload.model_provider),
+  cliVersion: stringOrUndefined(payload.cli_version),
+});
+
+// sandbox_policy is either a bare mode string or an object tagged with `mode`
+// (older rollouts) or `type`.
+const configFromTurnContext = (payload: TurnContextPayload): SessionConfig => {
+  const sandbox = toRecord(payload.sandbox_policy);
+  return {
+    model: stringOrUndefined(payload.model),
+    reasoningEffort: stringOrUndefined(payload.effort),
+    approvalPolicy: stringOrUndefined(payload.approval_policy),
+    sandbox: sandbox
+      ? stringOrUndefined(sandbox.mode) ?? stringOrUndefined(sandbox.type)
+      : stringOrUndefined(payload.sandbox_policy),
+  };
+};
+
+function applyRecords(state: CodexState, events: CodexEvent[]) {
+  for (const event of events) {
+    const eventTimestamp = typeof event.timestamp === "string" ? event.timestamp : undefined;
+    if (eventTimestamp) {
+      state.lastActivityAt = eventTimestamp;
+      if (!state.startedAt) {
+        state.startedAt = eventTimestamp;
+      }
+    }
+
+    if (event.type === "session_meta") {
+      const payload = toRecord(event.payload) as SessionMetaPayload | undefined;
+      if (payload) {
+        state.meta = payload;
+        state.startedAt = payload.timestamp ?? state.startedAt;
+        state.config = mergeConfig(state.config, configFromMeta(payload));
+      }
+      continue;
+    }
+
+    if (event.type === "turn_context") {
+      const payload = toRecord(event.payload) as TurnContextPayload | undefined;
+      if (payload) state.config = mergeConfig(state.config, configFromTurnContext(payload));
+      continue;
+    }
+
+    if (event.type === "response_item") {
+      const payload = toRecord(event.payload) as ResponsePayload | undefined;
+      if (!payload) continue;
+      if (payload.type === "message" && payload.role === "user" && !state.preview) {
+        state.preview = composePreview(extractText(payload.content));
+      }
+      if (
+        (payload.type === "function_call" || payload.type === "custom_tool_call") &&
+        typeof payload.call_id === "string"
+      ) {
+        state.toolCalls.add(payload.call_id);
+      }
+    }
+
+    if (event.type === "event_msg") {
+      const payload = toRecord(event.payload) as TokenPayload | undefined;
+      if (payload?.type === "token_count" && payload.info) {
+        state.tokens = payload.info.total_token_usage;
+        state.contextWindow = payload.info.model_context_window;
+      }
+    }
+  }
+}
+
+function buildToolCalls(events: CodexEvent[], seed: ToolCall[] = []): ToolCall[] {
+  const calls = new Map<string, ToolCall>(seed.map((call) => [call.id, call]));
+  for (const event of events) {
+    if (event.type !== "response_item") continue;
+    const payload = toRecord(event.payload) as ResponsePayload | undefined;
+    if (!payload) continue;
+    const timestamp = typeof event.timestamp === "string" ? event.timestamp : undefined;
+    if (payload.type === "function_call" && typeof payload.call_id === "string") {
+      const existing = calls.get(payload.call_id) ?? {
+        id: payload.call_id,
+        name: payload.name ?? "function_call",
+        toolKind: "function" as const,
+        status: payload.status ?? "in_progress",
+      };
+      existing.name = payload.name ?? existing.name;
+      if (typeof payload.arguments === "string") {
+        existing.input = payload.arguments;
+      }
+      existing.startedAt = existing.startedAt ?? timestamp;
+      existing.status = payload.status ?? existing.status;
+      calls.set(payload.call_id, existing);
+    }
+    if (payload.type === "function_call_output" && typeof payload.call_id === "string") {
+      const existing = calls.get(payload.call_id);
+      if (existing) {
+        // Shell results are wrapped as `{ output, metadata: { exit_code, duration_seconds } }`.
+        const parsed =
+          typeof payload.output === "string"
+            ? safeParse<{ output?: unknown; metadata?: Record<string, unknown> }>(payload.output)
+            : undefined;
+        if (typeof parsed?.output === "string" && parsed.metadata) {
+          existing.output = parsed.output;
+          existing.metadata = parsed.metadata;
+        } else if (typeof payload.output === "string") {
+          existing.output = payload.output;
+        }
+        existing.completedAt = timestamp ?? existing.completedAt;
+        existing.status = "completed";
+      }
+    }
+    if (payload.type === "custom_tool_call" && typeof payload.call_id === "string") {
+      const existing = calls.get(payload.call_id) ?? {
+        id: payload.call_id,
+        name: payload.name ?? "custom_tool",
+        toolKind: "custom" as const,
+        status: payload.status ?? "in_progress",
+      };
+      if (typeof payload.input === "string") {
+        existing.input = payload.input;
+      }
+      existing.startedAt = existing.startedAt ?? timestamp;
+      existing.status = payload.status ?? existing.status;
+      calls.set(payload.call_id, existing);
+    }
+    if (payload.type === "custom_tool_call_output" && typeof payload.call_id === "string") {
+      const existing = calls.get(payload.call_id);
+      if (existing) {
+        const parsed =
+          typeof payload.output === "string"
+            ? safeParse<{ output?: string; metadata?: Record<string, unknown> }>(payload.output)
+            : (payload.output as { output?: string; metadata?: Record<string, unknown> } | undefined);
+        if (parsed?.output) {
+          existing.output = parsed.output;
+        } else if (typeof payload.output === "string") {
+          existing.output = payload.output;
+        }
+        existing.metadata = parsed?.metadata ?? existing.metadata;
+        existing.completedAt = timestamp ?? existing.completedAt;
+        existing.status = "completed";
+      }
+    }
+  }
+
+  const finalized = Array.from(calls.values()).map((call) => {
+    if (call.startedAt && call.completedAt) {
+      call.durationMs = new Date(call.completedAt).getTime() - new Date(call.startedAt).getTime();
+    }
+    return call;
+  });
+
+  return sortToolCalls(finalized);
+}
+
+function buildMessages(events: CodexEvent[], startIndex = 0): ChatMessage[] {
+  const messages: ChatMessage[] = [];
+  const nextIndex = () => startIndex + messages.length;
+  for (const event of events) {
+    if (event.type === "response_item") {
+      const payload = toRecord(event.payload) as ResponsePayload | undefined;
+      if (!payload) continue;
+      if (payload.type === "message") {
+        const role = (payload.role ?? "assistant") as ChatMessage["role"];
+        messages.push({
+          id: `${event.timestamp}-message-${nextIndex()}`,
+          timestamp: typeof event.timestamp === "string" ? event.timestamp : new Date(0).toISOString(),
+          role,
+          kind: "text",
+          text: extractText(payload.content),
+        });
+        continue;
+      }
+      if (payload.type === "reasoning") {
+        const summaryText = Array.isArray(payload.summary)
+          ? payload.summary
+              .map((item: unknown) =>
+                typeof (item as { text?: string } | undefined)?.text === "string"
+                  ? ((item as { text: string }).text as string)
+                  : ""
+              )
+              .filter(Boolean)
+              .join("\n")
+          : "Reasoning log hidden";
+        messages.push({
+          id: `${event.timestamp}-reasoning-${nextIndex()}`,
+          timestamp: typeof event.timestamp === "string" ? event.timestamp : new Date(0).toISOString(),
+          role: "assistant",
+          kind: "reasoning",
+          text: summaryText || "Reasoning log hidden",
+        });
+        continue;
+      }
+    }
+
+    if (event.type === "event_msg") {
+      const payload = toRecord(event.payload);
+      if (payload?.type === "agent_reasoning") {
+        messages.push({
+          id: `${event.timestamp}-agent-${nextIndex()}`,
+          timestamp: typeof event.timestamp === "string" ? event.timestamp : new Date(0).toISOString(),
+          role: "assistant",
+          kind: "status",
+          text: typeof payload.text === "string" ? payload.text : "",
+        });
+      }
+    }
+  }
+  return messages.sort((a, b) => (a.timestamp > b.timestamp ? 1 : -1));
+}
+
+function buildTokenTimeline(events: CodexEvent[]): TokenTimelinePoint[] {
+  const points: TokenTimelinePoint[] = [];
+  for (const event of events) {
+    if (event.type !== "event_msg") continue;
+    const payload = toRecord(event.payload) as TokenPayload | undefined;
+    if (payload?.type === "token_count" && payload.info && payload.info.total_token_usage) {
+      const total = payload.info.total_token_usage;
+      const timestamp = typeof event.timestamp === "string" ? event.timestamp : new Date(0).toISOString();
+      const snapshot = snapshotFromUsage(total);
+      const delta = payload.info.last_token_usage ? snapshotFromUsage(payload.info.last_token_usage) : null;
+      points.push({
+        timestamp,
+        timestampMs: new Date(timestamp).getTime(),
+        totalTokens: snapshot.totalTokens,
+        inputTokens: snapshot.inputTokens,
+        cachedTokens: snapshot.cachedTokens,
+        userTokens: snapshot.userTokens,
+        outputTokens: snapshot.outputTokens,
+        reasoningTokens: snapshot.reasoningTokens,
+        billedTokens: snapshot.billedTokens,
+        contextWindow: payload.info.model_context_window,
+        delta,
+      });
+    }
+  }
+  return points.sort((a, b) => a.timestampMs - b.timestampMs);
+}
+
+function buildConfigHistory(events: CodexEvent[], previous: SessionConfig = {}): SessionConfigChange[] {
+  const history: SessionConfigChange[] = [];
+  let current = previous;
+  for (const event of events) {
+    const payload = toRecord(event.payload);
+    if (!payload) continue;
+    if (event.type === "session_meta") {
+      current = mergeConfig(current, configFromMeta(payload as SessionMetaPayload));
+    }
+    if (event.type === "turn_context") {
+      const timestamp = typeof event.timestamp === "string" ? event.timestamp : new Date(0).toISOString();
+      current = pushConfigChange(history, current, configFromTurnContext(payload as TurnContextPayload), timestamp);
+    }
+  }
+  return history;
+}
+
+// Codex injects its environment and instructions as user messages at the start
+// of a session; only real prompts open a turn.
+const SESSION_PREFIXES = ["<environment_context>", "<user_instructions>", "# AGENTS.md instructions"];
+
+const isPrompt = (payload: ResponsePayload) => {
+  if (payload.type !== "message" || payload.role !== "user") return false;
+  const text = extractText(payload.content);
+  return Boolean(text) && !SESSION_PREFIXES.some((prefix) => text.startsWith(prefix));
+};
+
+function buildTurnMarkers(events: CodexEvent[]): TurnMarker[] {
+  const markers: TurnMarker[] = [];
+  for (const event of events) {
+    const payload = toRecord(event.payload);
+    if (!payload || typeof event.timestamp !== "string") continue;
+    const timestamp = event.timestamp;
+    if (event.type === "response_item" && isPrompt(payload as ResponsePayload)) {
+      markers.push({ timestamp, kind: "start", prompt: extractText((payload as ResponsePayload).content) });
+    }
+    if (event.type !== "event_msg") continue;
+    if (payload.type === "task_complete") {
+      markers.push({ timestamp, kind: "completed" });
+    }
+    if (payload.type === "turn_aborted") {
+      markers.push({ timestamp, kind: "aborted", reason: typeof payload.reason === "string" ? payload.reason : undefined });
+    }
+    if (payload.type === "error") {
+      markers.push({ timestamp, kind: "errored", reason: typeof payload.message === "string" ? payload.message : undefined });
+    }
+  }
+  return markers;
+}
+
+const asEvents = (records: LogRecord[]) => records as CodexEvent[];
+
+export const codexAdapter: SessionAdapter<CodexState> = {
+  id: "codex",
+  label: "Codex",
+  extensions: [".jsonl", ".jsonl.gz"],
+  sessionsDir: (rootPath) => path.join(rootPath, "sessions"),
+  archiveDir: (rootPath) => path.join(rootPath, "archived_sessions"),
+  sessionIdFromPath: extractSessionId,
+
+  createState: () => ({
+    meta: null,
+    preview: "",
+    startedAt: "",
+    lastActivityAt: "",
+    tokens: null,
+    contextWindow: undefined,
+    toolCalls: new Set<string>(),
+    config: {},
+  }),
+  applyRecords: (state, records) => applyRecords(state, asEvents(records)),
+  summarize: (state) => {
+    const meta = state.meta;
+    if (!meta) return null;
+    return {
+      cwd: meta.cwd,
+      startedAt: state.startedAt || meta.timestamp || new Date(0).toISOString(),
+      lastActivityAt: state.lastActivityAt || state.startedAt || meta.timestamp || new Date(0).toISOString(),
+      preview: state.preview || "(no prompt logged)",
+      tokens: state.tokens,
+      contextWindow: state.contextWindow,
+      toolCallCount: state.toolCalls.size,
+      config: state.config,
+    };
+  },
+
+  buildMessages: (records, startIndex) => buildMessages(asEvents(records), startIndex),
+  buildToolCalls: (records, seed) => buildToolCalls(asEvents(records), seed),
+  buildTokenTimeline: (records) => buildTokenTimeline(asEvents(records)),
+  toolCallIds: (records) =>
+    asEvents(records)
+      .map((event) => (event.type === "response_item" ? toRecord(event.payload)?.call_id : undefined))
+      .filter((callId): callId is string => typeof callId === "string"),
+  buildConfigHistory: (records, previous) => buildConfigHistory(asEvents(records), previous),
+  buildTurnMarkers: (records) => buildTurnMarkers(asEvents(records)),
+
+  isUsageRecord: (record) => record.type === "event_msg" && toRecord(record.payload)?.type === "token_count",
+  mergeTail: (head, tail) => {
+    head.lastActivityAt = tail.lastActivityAt || head.lastActivityAt;
+    head.tokens = tail.tokens ?? head.tokens;
+    head.contextWindow = tail.contextWindow ?? head.contextWindow;
+    head.config = mergeConfig(head.config, tail.config);
+  },
+};
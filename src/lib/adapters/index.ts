@@ -0,0 +1,10 @@
+import { claudeAdapter } from "./claude";
+import { codexAdapter } from "./codex";
+import type { SessionAdapter } from "./types";
+
+export const ADAPTERS: SessionAdapter[] = [codexAdapter, claudeAdapter];
+
+export const getAdapter = (id: string): SessionAdapter | undefined =>
+  ADAPTERS.find((adapter) => adapter.id === id);
+
+export type { AdapterSummary, LogRecord, SessionAdapter } from "./types";
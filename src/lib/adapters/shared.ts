@@ -0,0 +1,122 @@
+import path from "path";
+import type { SessionConfig, SessionConfigChange } from "../codex";
+
+export type JsonRecord = Record<string, unknown>;
+
+export type TokenUsage = {
+  input_tokens: number;
+  cached_input_tokens: number;
+  output_tokens: number;
+  reasoning_output_tokens: number;
+  total_tokens: number;
+};
+
+export type TokenSnapshot = {
+  totalTokens: number;
+  inputTokens: number;
+  cachedTokens: number;
+  userTokens: number;
+  outputTokens: number;
+  reasoningTokens: number;
+  billedTokens: number;
+};
+
+// Rollouts may be gzipped by retention jobs; both spellings name the same session.
+export const logBaseName = (filePath: string) => path.basename(filePath).replace(/\.jsonl(\.gz)?$/, "");
+
+export const toRecord = (value: unknown): JsonRecord | undefined =>
+  value && typeof value === "object" && !Array.isArray(value) ? (value as JsonRecord) : undefined;
+
+export const extractText = (content: unknown): string => {
+  if (!Array.isArray(content)) return "";
+  return content
+    .map((chunk) => {
+      if (typeof chunk !== "object" || !chunk) return "";
+      if ("text" in chunk && typeof chunk.text === "string") {
+        return chunk.text;
+      }
+      return "";
+    })
+    .filter(Boolean)
+    .join("\n")
+    .trim();
+};
+
+export const safeParse = <T>(maybe: string): T | undefined => {
+  try {
+    return JSON.parse(maybe) as T;
+  } catch {
+    return undefined;
+  }
+};
+
+export function composePreview(text: string): string {
+  if (!text) return "(no prompt logged)";
+  const cleaned = text.replace(/\s+/g, " ").trim();
+  return cleaned.length > 180 ? `${cleaned.slice(0, 177)}...` : cleaned;
+}
+
+export const snapshotFromUsage = (usage?: TokenUsage | null): TokenSnapshot => {
+  if (!usage) {
+    return {
+      totalTokens: 0,
+      inputTokens: 0,
+      cachedTokens: 0,
+      userTokens: 0,
+      outputTokens: 0,
+      reasoningTokens: 0,
+      billedTokens: 0,
+    };
+  }
+  const totalTokens = usage.total_tokens ?? 0;
+  const inputTokens = usage.input_tokens ?? 0;
+  const cachedTokens = usage.cached_input_tokens ?? 0;
+  const userTokens = Math.max(0, inputTokens - cachedTokens);
+  const outputTokens = usage.output_tokens ?? 0;
+  const reasoningTokens = usage.reasoning_output_tokens ?? 0;
+  const billedTokens = userTokens + outputTokens + reasoningTokens;
+  return {
+    totalTokens,
+    inputTokens,
+    cachedTokens,
+    userTokens,
+    outputTokens,
+    reasoningTokens,
+    billedTokens,
+  };
+};
+
+export const sortToolCalls = <T extends { startedAt?: string }>(calls: T[]) =>
+  calls.sort((a, b) => (a.startedAt && b.startedAt ? (a.startedAt > b.startedAt ? 1 : -1) : 0));
+
+const CONFIG_KEYS: (keyof SessionConfig)[] = [
+  "model",
+  "reasoningEffort",
+  "approvalPolicy",
+  "sandbox",
+  "modelProvider",
+  "cliVersion",
+];
+
+// Later values win; keys a record does not mention keep their previous value.
+export const mergeConfig = (base: SessionConfig, next: SessionConfig): SessionConfig => {
+  const merged = { ...base };
+  for (const key of CONFIG_KEYS) {
+    if (next[key] !== undefined) merged[key] = next[key];
+  }
+  return merged;
+};
+
+export const sameConfig = (a: SessionConfig, b: SessionConfig) => CONFIG_KEYS.every((key) => a[key] === b[key]);
+
+// Records a change whenever the merged configuration differs from the last one.
+export const pushConfigChange = (
+  history: SessionConfigChange[],
+  current: SessionConfig,
+  next: SessionConfig,
+  timestamp: string
+): SessionConfig => {
+  const merged = mergeConfig(current, next);
+  if (!sameConfig(current, merged)) history.push({ timestamp, config: merged });
+  return merged;
+};
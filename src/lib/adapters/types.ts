@@ -0,0 +1,51 @@
+import type {
+  ChatMessage,
+  SessionConfig,
+  SessionConfigChange,
+  TokenTimelinePoint,
+  ToolCall,
+  TurnMarker,
+} from "../codex";
+import type { JsonRecord, TokenUsage } from "./shared";
+
+export type LogRecord = JsonRecord;
+
+export interface AdapterSummary {
+  cwd?: string;
+  startedAt: string;
+  lastActivityAt: string;
+  preview: string;
+  tokens: TokenUsage | null;
+  contextWindow?: number;
+  toolCallCount: number;
+  config: SessionConfig;
+}
+
+// A session adapter turns one transcript format into the viewer's shared
+// session types. Parser state must survive structured cloning because summary
+// parsing runs in worker threads.
+export interface SessionAdapter<TState = unknown> {
+  id: string;
+  label: string;
+  extensions: string[];
+  defaultRoot?: () => string | null;
+  sessionsDir: (rootPath: string) => string;
+  archiveDir?: (rootPath: string) => string;
+  sessionIdFromPath: (filePath: string) => string | null;
+
+  createState(): TState;
+  applyRecords(state: TState, records: LogRecord[]): void;
+  summarize(state: TState): AdapterSummary | null;
+
+  buildMessages(records: LogRecord[], startIndex?: number): ChatMessage[];
+  buildToolCalls(records: LogRecord[], seed?: ToolCall[]): ToolCall[];
+  buildTokenTimeline(records: LogRecord[], previous?: TokenTimelinePoint): TokenTimelinePoint[];
+  toolCallIds(records: LogRecord[]): string[];
+  buildConfigHistory(records: LogRecord[], previous?: SessionConfig): SessionConfigChange[];
+  buildTurnMarkers(records: LogRecord[]): TurnMarker[];
+
+  // Optional head/tail fast path: formats whose usage records are cumulative
+  // can fill in the latest activity and totals from the end of the file.
+  isUsageRecord?(record: LogRecord): boolean;
+  mergeTail?(head: TState, tail: TState): void;
+}
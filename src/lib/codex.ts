@@ -1,83 +1,87 @@
 import path from "path";
 import os from "os";
-import { promises as fs } from "fs";
+import { existsSync, promises as fs } from "fs";
 import type { Stats } from "fs";
+import { Worker } from "worker_threads";
+import { promisify } from "util";
+import { gunzip } from "zlib";
 import fg from "fast-glob";
+import { watchSessionFiles, type SessionFileEvent, type SessionWatcher } from "./sessionWatcher";
+import { loadSummaryIndex, scheduleSummaryIndexWrite, type SummaryIndexEntry } from "./summaryIndex";
+import { createWorkerPool, type WorkerPool } from "./workerPool";
+import { ADAPTERS, getAdapter, type LogRecord, type SessionAdapter } from "./adapters";
+import { safeParse, snapshotFromUsage, type TokenSnapshot } from "./adapters/shared";
+import { extractFileActivity } from "./fileActivity";
+import { buildFileChanges } from "./patches";
+import { parseShellCall, parseShellCommands } from "./shell";
+import { buildTurns } from "./turns";
+import { pointDelta } from "./tokens";
+import { costForTokens, refreshPricing } from "./pricing";
+import { configureProject, isProjectHidden, redactionPatterns, refreshViewerConfig } from "./viewerConfig";
+import { redactText } from "./redaction";
+import { resolveProject } from "./projects";
 
 const CODEX_ROOT = process.env.CODEX_ROOT ?? path.join(os.homedir(), ".codex");
-const SESSIONS_ROOT = path.join(CODEX_ROOT, "sessions");
+const SESSION_ROOTS = parseSessionRoots(process.env.CODEX_ROOTS);
+const WATCH_MODE = process.env.CODEX_WATCH_MODE ?? "native";
+const WATCH_POLL_INTERVAL_MS = Number(process.env.CODEX_WATCH_POLL_INTERVAL_MS ?? 3000);
+const PARSE_WORKERS = parseWorkerCount(process.env.CODEX_PARSE_WORKERS);
+// Bundlers copy `new Worker(new URL(...))` targets as raw assets, so the worker
+// is compiled separately (`npm run build:worker`) and loaded from disk.
+const PARSE_WORKER_SCRIPT =
+  process.env.CODEX_PARSE_WORKER_SCRIPT ?? path.join(process.cwd(), "build", "rollout-worker", "rolloutWorker.js");
 
-const summaryCache = new Map<string, { mtimeMs: number; summary: SessionSummary }>();
+const FAST_SUMMARY_MIN_BYTES = Number(process.env.CODEX_FAST_SUMMARY_MIN_BYTES ?? 2 * 1024 * 1024);
+const SUMMARY_HEAD_BYTES = 256 * 1024;
+const SUMMARY_TAIL_BLOCK_BYTES = 64 * 1024;
+const SUMMARY_TAIL_MAX_BYTES = 4 * 1024 * 1024;
+
+const summaryCache = new Map<string, SummaryIndexEntry>();
+const summaryStates = new Map<string, SummaryParseState>();
+const pendingToolCallCounts = new Set<string>();
 const SESSION_LIST_CACHE_MS = 5000;
 let sessionListCache: { summaries: SessionSummary[]; expiresAt: number } | null = null;
-
-type TokenUsage = {
-  input_tokens: number;
-  cached_input_tokens: number;
-  output_tokens: number;
-  reasoning_output_tokens: number;
-  total_tokens: number;
-};
-
-type TokenSnapshot = {
-  totalTokens: number;
-  inputTokens: number;
-  cachedTokens: number;
-  userTokens: number;
-  outputTokens: number;
-  reasoningTokens: number;
-  billedTokens: number;
-};
+let sessionListGeneration = 0;
+const sessionWatchers = new Map<string, SessionWatcher>();
+let summaryIndexLoad: Promise<void> | null = null;
+let rolloutPool: WorkerPool<RolloutTask, RolloutTaskResult> | null = null;
 
 export type TokenDelta = TokenSnapshot;
 
-type TokenInfo = {
-  total_token_usage: TokenUsage;
-  last_token_usage?: TokenUsage;
-  model_context_window?: number;
-};
-
-type JsonRecord = Record<string, unknown>;
-
-interface CodexEvent {
-  timestamp?: string;
-  type?: string;
-  payload?: JsonRecord | null;
+export interface SessionSource {
+  label: string;
+  path: string;
+  agent: string;
 }
 
-interface SessionMetaPayload extends JsonRecord {
-  id?: string;
-  timestamp?: string;
-  cwd?: string;
+export interface SessionConfig {
+  model?: string;
+  reasoningEffort?: string;
+  approvalPolicy?: string;
+  sandbox?: string;
+  modelProvider?: string;
+  cliVersion?: string;
 }
 
-interface ResponsePayload extends JsonRecord {
-  type?: string;
-  role?: string;
-  content?: unknown;
-  call_id?: string;
-  name?: string;
-  status?: string;
-  input?: string;
-  arguments?: string;
-  output?: unknown;
-  summary?: unknown;
-}
-
-interface TokenPayload extends JsonRecord {
-  type?: string;
-  info?: TokenInfo | null;
+export interface SessionConfigChange {
+  timestamp: string;
+  config: SessionConfig;
 }
 
-const toRecord = (value: unknown): JsonRecord | undefined =>
-  value && typeof value === "object" && !Array.isArray(value) ? (value as JsonRecord) : undefined;
-
 export interface SessionSummary {
   id: string;
+  agent: string;
+  source: string;
+  duplicateSources?: string[];
   projectId: string;
   projectName: string;
   projectPath: string;
+  projectSubdirectory?: string;
+  worktree?: string;
+  // The directory the agent was started in, as the log recorded it.
+  cwd?: string;
   relativePath: string;
+  archived: boolean;
   startedAt: string;
   lastActivityAt: string;
   preview: string;
@@ -89,16 +93,30 @@ export interface SessionSummary {
   reasoningTokens: number;
   contextWindow?: number;
   toolCallCount: number;
+  toolCallCountPending?: boolean;
+  config: SessionConfig;
+  cost: number | null;
 }
 
+// What parsing a rollout yields and the summary index stores. The project is
+// resolved from `cwd` whenever a summary is read, so repositories created or
+// moved since the rollout was indexed are picked up.
+export type ParsedSummary = Omit<
+  SessionSummary,
+  "projectId" | "projectName" | "projectPath" | "projectSubdirectory" | "worktree"
+>;
+
 export interface ProjectSummary {
   id: string;
   name: string;
   path: string;
+  sources: string[];
   sessionCount: number;
   latestActivityAt?: string;
   totalTokens: number;
   billedTokens: number;
+  cost: number;
+  unpricedSessionCount: number;
 }
 
 export interface ChatMessage {
@@ -121,13 +139,23 @@ export interface TokenTimelinePoint {
   billedTokens: number;
   contextWindow?: number;
   delta: TokenDelta | null;
+  cost?: number | null;
+  deltaCost?: number | null;
+  // The API response behind the point, for agents that log one response as
+  // several records repeating its usage.
+  message?: { id: string; usage: TokenSnapshot };
 }
 
+export type ToolOutcome = "succeeded" | "failed" | "timed_out" | "rejected";
+
 export interface ToolCall {
   id: string;
   name: string;
   toolKind: "function" | "custom";
   status: string;
+  // Set once the call has a result; `status` only says that output arrived.
+  outcome?: ToolOutcome;
+  outcomeReason?: string;
   input?: string;
   output?: string;
   metadata?: Record<string, unknown>;
@@ -136,19 +164,181 @@ export interface ToolCall {
   durationMs?: number;
 }
 
+export interface PatchHunk {
+  header: string;
+  lines: { kind: "context" | "add" | "remove"; text: string }[];
+}
+
+// One file touched by an `apply_patch` call.
+export interface FileChange {
+  id: string;
+  callId: string;
+  timestamp?: string;
+  action: "add" | "update" | "delete";
+  path: string;
+  movePath?: string;
+  hunks: PatchHunk[];
+  added: number;
+  removed: number;
+}
+
+export type FileActivityAction = "read" | "write" | "delete";
+
+// A file a tool call read, wrote or deleted.
+export interface FileActivity {
+  id: string;
+  callId: string;
+  tool: string;
+  timestamp?: string;
+  action: FileActivityAction;
+  path: string;
+  command?: string;
+}
+
+// A shell tool call with what its result reported.
+export interface ShellCommand {
+  callId: string;
+  tool: string;
+  command: string;
+  workdir?: string;
+  startedAt?: string;
+  exitCode?: number;
+  durationMs?: number;
+  timeoutMs?: number;
+  timedOut: boolean;
+  failed: boolean;
+  sessionId?: string;
+  sessionPreview?: string;
+}
+
+export interface CommandGroup {
+  command: string;
+  runs: number;
+  failures: number;
+  totalDurationMs: number;
+  maxDurationMs?: number;
+  lastAt?: string;
+  sessionCount: number;
+}
+
+export interface CommandReport {
+  total: number;
+  failed: number;
+  timedOut: number;
+  failures: ShellCommand[];
+  slowest: ShellCommand[];
+  repeated: CommandGroup[];
+}
+
+export interface ProjectFileSession {
+  sessionId: string;
+  preview: string;
+  reads: number;
+  writes: number;
+  deletes: number;
+  lastAt?: string;
+}
+
+// File activity summed over a project's sessions; paths are relative to the
+// project root when they fall inside it.
+export interface ProjectFileStat {
+  path: string;
+  reads: number;
+  writes: number;
+  deletes: number;
+  lastAt?: string;
+  sessions: ProjectFileSession[];
+}
+
+export type UsageBucket = "day" | "week" | "month";
+
+export interface UsageTotals {
+  sessions: number;
+  totalTokens: number;
+  billedTokens: number;
+  cost: number;
+  unpricedSessions: number;
+}
+
+// One bucket of the usage report; `projects` holds model tokens keyed by
+// project id, with smaller projects folded into one "__other" entry.
+export interface UsagePoint extends UsageTotals {
+  start: string;
+  projects: Record<string, number>;
+}
+
+export interface UsageReport {
+  from: string;
+  to: string;
+  bucket: UsageBucket;
+  totals: UsageTotals;
+  projects: { id: string; name: string; totalTokens: number }[];
+  buckets: UsagePoint[];
+  days: UsagePoint[];
+  // Sessions started per weekday (0 = Sunday) and hour, in the viewer's time zone.
+  activity: number[][];
+}
+
+export type TurnOutcome = "completed" | "aborted" | "errored" | "in_progress";
+
+export interface TurnMarker {
+  timestamp: string;
+  kind: "start" | Exclude<TurnOutcome, "in_progress">;
+  reason?: string;
+  // The prompt that opened the turn, on "start" markers.
+  prompt?: string;
+}
+
+export interface Turn {
+  id: string;
+  index: number;
+  startedAt: string;
+  endedAt?: string;
+  durationMs?: number;
+  prompt: string;
+  messageIds: string[];
+  toolCallIds: string[];
+  tokens: TokenDelta;
+  cost: number | null;
+  outcome: TurnOutcome;
+  outcomeReason?: string;
+}
+
 export interface SessionDetail {
   summary: SessionSummary;
   messages: ChatMessage[];
   tokenTimeline: TokenTimelinePoint[];
   toolCalls: ToolCall[];
+  fileChanges: FileChange[];
+  fileActivity: FileActivity[];
+  shellCommands: ShellCommand[];
+  configHistory: SessionConfigChange[];
+  turns: Turn[];
+  cursor: number;
+}
+
+export interface SessionDetailUpdate {
+  from: number;
+  cursor: number;
+  summary: SessionSummary;
+  messages: ChatMessage[];
+  tokenTimeline: TokenTimelinePoint[];
+  toolCalls: ToolCall[];
+  configHistory: SessionConfigChange[];
+  turnMarkers: TurnMarker[];
+}
+
+export interface SessionTail {
+  cursor: number;
+  poll: () => Promise<SessionDetailUpdate | "reset" | null>;
 }
 
-const emptySummary: SessionSummary = {
+const emptySummary: ParsedSummary = {
   id: "",
-  projectId: "",
-  projectName: "",
-  projectPath: "",
+  agent: "",
+  source: "",
   relativePath: "",
+  archived: false,
   startedAt: new Date(0).toISOString(),
   lastActivityAt: new Date(0).toISOString(),
   preview: "",
@@ -160,237 +350,724 @@ const emptySummary: SessionSummary = {
   reasoningTokens: 0,
   contextWindow: undefined,
   toolCallCount: 0,
+  config: {},
+  cost: null,
 };
 
 const lineFilter = (line: string) =>
   line && !line.startsWith("Total output lines") ? line : "";
 
-const extractSessionId = (filePath: string): string | null => {
-  const base = path.basename(filePath, ".jsonl");
-  const match = base.match(/rollout-\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-(.+)/);
-  return match?.[1] ?? null;
-};
-
-const slugify = (value: string) =>
-  value
-    .toLowerCase()
-    .replace(/[^a-z0-9]+/g, "-")
-    .replace(/(^-|-$)/g, "");
-
-const extractText = (content: unknown): string => {
-  if (!Array.isArray(content)) return "";
-  return content
-    .map((chunk) => {
-      if (typeof chunk !== "object" || !chunk) return "";
-      if ("text" in chunk && typeof chunk.text === "string") {
-        return chunk.text;
-      }
-      return "";
-    })
-    .filter(Boolean)
-    .join("\n")
-    .trim();
-};
+function ensureSummaryIndex(): Promise<void> {
+  summaryIndexLoad ??= loadSummaryIndex().then((entries) => {
+    for (const [filePath, entry] of entries) {
+      if (!summaryCache.has(filePath)) summaryCache.set(filePath, entry);
+    }
+  });
+  return summaryIndexLoad;
+}
 
-const safeParse = <T>(maybe: string): T | undefined => {
-  try {
-    return JSON.parse(maybe) as T;
-  } catch {
-    return undefined;
+function handleSessionFileEvents(events: SessionFileEvent[]) {
+  let removed = false;
+  for (const event of events) {
+    if (event.type === "remove") {
+      summaryCache.delete(event.filePath);
+      summaryStates.delete(event.filePath);
+      removed = true;
+    }
   }
-};
+  if (removed) scheduleSummaryIndexWrite(summaryCache);
+  sessionListGeneration += 1;
+  sessionListCache = null;
+}
+
+type SessionRoot = SessionSource & { sessionsDir: string; archiveDir?: string; adapter: SessionAdapter };
 
-const snapshotFromUsage = (usage?: TokenUsage | null): TokenSnapshot => {
-  if (!usage) {
+// A garbage count would leave the pool unable to spawn or drain its queue.
+function parseWorkerCount(value: string | undefined) {
+  const parsed = Number.parseInt(value ?? "", 10);
+  if (Number.isFinite(parsed)) return Math.max(1, parsed);
+  return Math.min(4, Math.max(1, os.availableParallelism() - 1));
+}
+
+// CODEX_ROOTS is a comma or newline separated list of `label=path` entries; a
+// bare path is labelled after its directory name. A path may be prefixed with
+// an adapter id (`claude:~/.claude/projects`), otherwise it holds Codex rollouts.
+// Without CODEX_ROOTS, CODEX_ROOT is read plus every adapter's default root
+// that exists on this machine.
+function parseSessionRoots(value: string | undefined): SessionRoot[] {
+  const defaultAdapter = ADAPTERS[0];
+  const entries = (value ?? "")
+    .split(/[,\n]/)
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf("=");
+      let location = separator > 0 ? entry.slice(separator + 1).trim() : entry;
+      const prefix = location.match(/^([a-z][\w-]*):(.+)$/);
+      const adapter = (prefix && getAdapter(prefix[1])) || defaultAdapter;
+      if (prefix && adapter !== defaultAdapter) location = prefix[2];
+      const rootPath = path.resolve(location);
+      const label = separator > 0 ? entry.slice(0, separator).trim() : path.basename(rootPath) || rootPath;
+      return { label, path: rootPath, adapter };
+    });
+  const sources = entries.length
+    ? entries
+    : [
+        { label: "local", path: CODEX_ROOT, adapter: defaultAdapter },
+        ...ADAPTERS.flatMap((adapter) => {
+          const rootPath = adapter.defaultRoot?.();
+          return rootPath && existsSync(rootPath) ? [{ label: adapter.id, path: rootPath, adapter }] : [];
+        }),
+      ];
+  const seen = new Set<string>();
+  return sources.map((source) => {
+    let label = source.label;
+    for (let suffix = 2; seen.has(label); suffix += 1) label = `${source.label}-${suffix}`;
+    seen.add(label);
+    const nested = source.adapter.sessionsDir(source.path);
+    const archiveDir = source.adapter.archiveDir?.(source.path);
     return {
-      totalTokens: 0,
-      inputTokens: 0,
-      cachedTokens: 0,
-      userTokens: 0,
-      outputTokens: 0,
-      reasoningTokens: 0,
-      billedTokens: 0,
+      label,
+      path: source.path,
+      agent: source.adapter.id,
+      adapter: source.adapter,
+      sessionsDir: existsSync(nested) ? nested : source.path,
+      archiveDir: archiveDir && existsSync(archiveDir) ? archiveDir : undefined,
     };
+  });
+}
+
+const rootDirs = (root: SessionRoot) => (root.archiveDir ? [root.sessionsDir, root.archiveDir] : [root.sessionsDir]);
+
+const isWithin = (dir: string, filePath: string) => filePath.startsWith(`${dir}${path.sep}`);
+
+const rootForFile = (filePath: string): SessionRoot =>
+  SESSION_ROOTS.find((root) => rootDirs(root).some((dir) => isWithin(dir, filePath))) ?? SESSION_ROOTS[0];
+
+const isCompressed = (filePath: string) => filePath.endsWith(".gz");
+
+// Rollouts moved to the archive folder or gzipped by retention are both
+// considered archived.
+const isArchived = (root: SessionRoot, filePath: string) =>
+  Boolean(root.archiveDir && isWithin(root.archiveDir, filePath)) || isCompressed(filePath);
+
+export function getSessionSources(): SessionSource[] {
+  return SESSION_ROOTS.map(({ label, path: rootPath, agent }) => ({ label, path: rootPath, agent }));
+}
+
+function getSessionWatcher(root: SessionRoot, dir: string): SessionWatcher | null {
+  if (WATCH_MODE === "off") return null;
+  let watcher = sessionWatchers.get(dir);
+  if (!watcher) {
+    watcher = watchSessionFiles(dir, {
+      extensions: root.adapter.extensions,
+      mode: WATCH_MODE === "poll" ? "poll" : "native",
+      pollIntervalMs: WATCH_POLL_INTERVAL_MS,
+      onEvents: handleSessionFileEvents,
+    });
+    sessionWatchers.set(dir, watcher);
   }
-  const totalTokens = usage.total_tokens ?? 0;
-  const inputTokens = usage.input_tokens ?? 0;
-  const cachedTokens = usage.cached_input_tokens ?? 0;
-  const userTokens = Math.max(0, inputTokens - cachedTokens);
-  const outputTokens = usage.output_tokens ?? 0;
-  const reasoningTokens = usage.reasoning_output_tokens ?? 0;
-  const billedTokens = userTokens + outputTokens + reasoningTokens;
-  return {
-    totalTokens,
-    inputTokens,
-    cachedTokens,
-    userTokens,
-    outputTokens,
-    reasoningTokens,
-    billedTokens,
-  };
+  return watcher;
+}
+
+const watchedStat = (filePath: string) => {
+  if (WATCH_MODE === "off") return undefined;
+  const dir = rootDirs(rootForFile(filePath)).find((candidate) => isWithin(candidate, filePath));
+  return dir ? sessionWatchers.get(dir)?.stat(filePath) : undefined;
 };
 
-async function listSessionFiles(): Promise<string[]> {
+async function listDirFiles(root: SessionRoot, dir: string): Promise<string[]> {
+  const watcher = getSessionWatcher(root, dir);
+  if (watcher) {
+    await watcher.ready;
+    return watcher.files();
+  }
   try {
-    const files = await fg("**/*.jsonl", {
-      cwd: SESSIONS_ROOT,
+    return await fg(root.adapter.extensions.map((extension) => `**/*${extension}`), {
+      cwd: dir,
       absolute: true,
       suppressErrors: true,
     });
-    files.sort();
-    return files;
   } catch {
     return [];
   }
 }
 
-async function readJsonl(filePath: string): Promise<CodexEvent[]> {
-  const raw = await fs.readFile(filePath, "utf-8");
-  const events: CodexEvent[] = [];
-  for (const line of raw.split("\n")) {
-    const cleaned = lineFilter(line.trim());
-    if (!cleaned) continue;
+async function listRootFiles(root: SessionRoot): Promise<string[]> {
+  return (await Promise.all(rootDirs(root).map((dir) => listDirFiles(root, dir)))).flat();
+}
+
+async function listSessionFiles(): Promise<string[]> {
+  const files = (await Promise.all(SESSION_ROOTS.map(listRootFiles))).flat();
+  files.sort();
+  return files;
+}
+
+const parseLine = (line: string): LogRecord | undefined => {
+  const cleaned = lineFilter(line.trim());
+  if (!cleaned) return undefined;
+  try {
+    const parsed = JSON.parse(cleaned);
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+      return parsed as LogRecord;
+    }
+  } catch {
+    // ignore malformed line
+  }
+  return undefined;
+};
+
+const gunzipAsync = promisify(gunzip);
+
+// Compressed rollouts are finished, so they are always read whole and their
+// offset is the compressed size: any later read starts at the end.
+async function readJsonl(filePath: string): Promise<{ events: LogRecord[]; offset: number }> {
+  const raw = await fs.readFile(filePath);
+  const text = isCompressed(filePath) ? (await gunzipAsync(raw)).toString("utf-8") : raw.toString("utf-8");
+  const events: LogRecord[] = [];
+  for (const line of text.split("\n")) {
+    const event = parseLine(line);
+    if (event) events.push(event);
+  }
+  return { events, offset: raw.length };
+}
+
+// A trailing line without "\n" is only consumed once it parses, so a record
+// that is still being written gets picked up by the next read.
+async function readJsonlChunk(
+  filePath: string,
+  start = 0,
+  end?: number
+): Promise<{ events: LogRecord[]; offset: number }> {
+  if (isCompressed(filePath)) {
+    return start > 0 ? { events: [], offset: start } : readJsonl(filePath);
+  }
+  const handle = await fs.open(filePath, "r");
+  try {
+    const limit = end ?? (await handle.stat()).size;
+    const length = Math.max(0, limit - start);
+    if (!length) return { events: [], offset: start };
+    const buffer = Buffer.alloc(length);
+    const { bytesRead } = await handle.read(buffer, 0, length, start);
+    const data = buffer.subarray(0, bytesRead);
+
+    const events: LogRecord[] = [];
+    const lastNewline = data.lastIndexOf(0x0a);
+    const complete = lastNewline >= 0 ? data.subarray(0, lastNewline + 1).toString("utf-8") : "";
+    for (const line of complete.split("\n")) {
+      const event = parseLine(line);
+      if (event) events.push(event);
+    }
+    let consumed = lastNewline + 1;
+
+    const remainder = data.subarray(consumed);
+    if (remainder.length) {
+      const event = parseLine(remainder.toString("utf-8"));
+      if (event) {
+        events.push(event);
+        consumed = data.length;
+      }
+    }
+    return { events, offset: start + consumed };
+  } finally {
+    await handle.close();
+  }
+}
+
+type SummaryParseState = {
+  offset: number;
+  ino: number;
+  agent: string;
+  data: unknown;
+};
+
+const createSummaryState = (adapter: SessionAdapter, ino: number): SummaryParseState => ({
+  offset: 0,
+  ino,
+  agent: adapter.id,
+  data: adapter.createState(),
+});
+
+const adapterFor = (agent: string): SessionAdapter => {
+  const adapter = getAdapter(agent);
+  if (!adapter) throw new Error(`Unknown session adapter: ${agent}`);
+  return adapter;
+};
+
+type SummaryLocation = Pick<SessionSummary, "source" | "relativePath" | "archived">;
+
+const locateFile = (filePath: string): SummaryLocation => {
+  const root = rootForFile(filePath);
+  return { source: root.label, relativePath: path.relative(root.path, filePath), archived: isArchived(root, filePath) };
+};
+
+function summaryFromState(
+  filePath: string,
+  sessionId: string,
+  state: SummaryParseState,
+  location: SummaryLocation = locateFile(filePath)
+): ParsedSummary | null {
+  const parsed = adapterFor(state.agent).summarize(state.data);
+  if (!parsed) return null;
+
+  const snapshot = snapshotFromUsage(parsed.tokens);
+
+  return {
+    id: sessionId,
+    agent: state.agent,
+    cwd: parsed.cwd,
+    ...location,
+    startedAt: parsed.startedAt,
+    lastActivityAt: parsed.lastActivityAt,
+    preview: parsed.preview,
+    totalTokens: snapshot.totalTokens,
+    billedTokens: snapshot.billedTokens,
+    cachedTokens: snapshot.cachedTokens,
+    userTokens: snapshot.userTokens,
+    outputTokens: snapshot.outputTokens,
+    reasoningTokens: snapshot.reasoningTokens,
+    contextWindow: parsed.contextWindow,
+    toolCallCount: parsed.toolCallCount,
+    config: parsed.config,
+    cost: null,
+  };
+}
+
+async function readSummaryHead(filePath: string, size: number): Promise<LogRecord[]> {
+  const { events } = await readJsonlChunk(filePath, 0, Math.min(size, SUMMARY_HEAD_BYTES));
+  return events;
+}
+
+// Walks backwards one block at a time until the last usage record is in view.
+async function readSummaryTail(
+  filePath: string,
+  size: number,
+  isUsageRecord: (record: LogRecord) => boolean
+): Promise<LogRecord[]> {
+  let start = size;
+  let events: LogRecord[] = [];
+  while (start > 0 && size - start < SUMMARY_TAIL_MAX_BYTES) {
+    start = Math.max(0, start - SUMMARY_TAIL_BLOCK_BYTES);
+    const handle = await fs.open(filePath, "r");
+    let lineStart = start;
     try {
-      const parsed = JSON.parse(cleaned);
-      if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
-        events.push(parsed as CodexEvent);
+      if (start > 0) {
+        const probe = Buffer.alloc(Math.min(SUMMARY_TAIL_BLOCK_BYTES, size - start));
+        const { bytesRead } = await handle.read(probe, 0, probe.length, start);
+        const firstNewline = probe.subarray(0, bytesRead).indexOf(0x0a);
+        if (firstNewline === -1) continue;
+        lineStart = start + firstNewline + 1;
       }
-    } catch {
-      // ignore malformed line
+    } finally {
+      await handle.close();
     }
+    events = (await readJsonlChunk(filePath, lineStart, size)).events;
+    if (events.some(isUsageRecord)) break;
   }
   return events;
 }
 
-function composePreview(text: string): string {
-  if (!text) return "(no prompt logged)";
-  const cleaned = text.replace(/\s+/g, " ").trim();
-  return cleaned.length > 180 ? `${cleaned.slice(0, 177)}...` : cleaned;
+async function readFastSummary(
+  adapter: SessionAdapter,
+  filePath: string,
+  sessionId: string,
+  size: number,
+  previous?: ParsedSummary
+): Promise<ParsedSummary | null> {
+  if (!adapter.isUsageRecord || !adapter.mergeTail) return null;
+  const headState = createSummaryState(adapter, 0);
+  adapter.applyRecords(headState.data, await readSummaryHead(filePath, size));
+  const tailState = createSummaryState(adapter, 0);
+  adapter.applyRecords(tailState.data, await readSummaryTail(filePath, size, adapter.isUsageRecord));
+  adapter.mergeTail(headState.data, tailState.data);
+
+  const summary = summaryFromState(filePath, sessionId, headState);
+  if (!summary) return null;
+  return {
+    ...summary,
+    toolCallCount: previous?.toolCallCount ?? summary.toolCallCount,
+    toolCallCountPending: true,
+  };
+}
+
+function scheduleToolCallCount(filePath: string) {
+  if (pendingToolCallCounts.has(filePath)) return;
+  pendingToolCallCounts.add(filePath);
+  parseSessionSummary(filePath, { exact: true })
+    .then((summary) => {
+      if (!summary) return;
+      sessionListGeneration += 1;
+      sessionListCache = null;
+    })
+    .catch((error) => console.error(`Failed to count tool calls for ${filePath}`, error))
+    .finally(() => pendingToolCallCounts.delete(filePath));
 }
 
+// Parser state is kept per file so only appended bytes are read when mtime
+// changes. Pre-read `events` covering [from, offset) are reused when they
+// continue exactly where the saved state stopped. Large files without saved
+// state get a head/tail summary first; `exact` forces the full pass.
 async function parseSessionSummary(
   filePath: string,
-  options?: { events?: CodexEvent[]; stat?: Stats | null }
-): Promise<SessionSummary | null> {
-  const sessionId = extractSessionId(filePath);
+  options?: { events?: LogRecord[]; stat?: Stats | null; from?: number; offset?: number; exact?: boolean }
+): Promise<ParsedSummary | null> {
+  const { adapter } = rootForFile(filePath);
+  const sessionId = adapter.sessionIdFromPath(filePath);
   if (!sessionId) return null;
 
   const stat = options?.stat ?? (await fs.stat(filePath).catch(() => null));
   if (!stat) return null;
 
+  await ensureSummaryIndex();
   const cached = summaryCache.get(filePath);
-  if (cached && cached.mtimeMs === stat.mtimeMs) {
+  if (
+    cached &&
+    cached.mtimeMs === stat.mtimeMs &&
+    cached.size === stat.size &&
+    !(options?.exact && cached.summary.toolCallCountPending)
+  ) {
     return cached.summary;
   }
 
-  const events = options?.events ?? (await readJsonl(filePath));
-  let meta: SessionMetaPayload | null = null;
-  let preview = "";
-  let startedAt = "";
-  let lastActivityAt = "";
-  let tokens: TokenUsage | null = null;
-  let contextWindow: number | undefined;
-  const toolCalls = new Set<string>();
+  let state = summaryStates.get(filePath);
+  const stale = !state || state.ino !== stat.ino || state.offset > stat.size || state.agent !== adapter.id;
 
-  for (const event of events) {
-    const eventTimestamp = typeof event.timestamp === "string" ? event.timestamp : undefined;
-    if (eventTimestamp) {
-      lastActivityAt = eventTimestamp;
-      if (!startedAt) {
-        startedAt = eventTimestamp;
-      }
+  if (
+    stale &&
+    !options?.events &&
+    !options?.exact &&
+    !isCompressed(filePath) &&
+    stat.size >= FAST_SUMMARY_MIN_BYTES
+  ) {
+    const summary = await readFastSummary(adapter, filePath, sessionId, stat.size, cached?.summary);
+    if (summary) {
+      summaryCache.set(filePath, { size: stat.size, mtimeMs: stat.mtimeMs, summary });
+      scheduleToolCallCount(filePath);
+      return summary;
     }
+  }
 
-    if (event.type === "session_meta") {
-      const payload = toRecord(event.payload) as SessionMetaPayload | undefined;
-      if (payload) {
-        meta = payload;
-        startedAt = payload.timestamp ?? startedAt;
-      }
-      continue;
-    }
+  if (!state || stale) {
+    state = createSummaryState(adapter, stat.ino);
+    summaryStates.set(filePath, state);
+  }
 
-    if (event.type === "response_item") {
-      const payload = toRecord(event.payload) as ResponsePayload | undefined;
-      if (!payload) continue;
-      if (payload.type === "message" && payload.role === "user" && !preview) {
-        preview = composePreview(extractText(payload.content));
-      }
-      if (
-        (payload.type === "function_call" || payload.type === "custom_tool_call") &&
-        typeof payload.call_id === "string"
-      ) {
-        toolCalls.add(payload.call_id);
-      }
-    }
+  if (options?.events && typeof options.offset === "number" && (options.from ?? 0) === state.offset) {
+    adapter.applyRecords(state.data, options.events);
+    state.offset = options.offset;
+  }
 
-    if (event.type === "event_msg") {
-      const payload = toRecord(event.payload) as TokenPayload | undefined;
-      if (payload?.type === "token_count" && payload.info) {
-        tokens = payload.info.total_token_usage;
-        contextWindow = payload.info.model_context_window;
-      }
+  if (state.offset < stat.size) {
+    state = (await runRollout({ kind: "summary", filePath, state, end: stat.size })) as SummaryParseState;
+    summaryStates.set(filePath, state);
+  }
+
+  const summary = summaryFromState(filePath, sessionId, state);
+  if (!summary) return null;
+
+  summaryCache.set(filePath, { size: stat.size, mtimeMs: stat.mtimeMs, summary });
+  scheduleSummaryIndexWrite(summaryCache);
+  return summary;
+}
+
+// The same rollout can be exported into several roots; the copy that ran
+// longest wins and the other roots are recorded on it.
+const preferSummary = (a: ParsedSummary, b: ParsedSummary) => {
+  if (a.lastActivityAt !== b.lastActivityAt) return a.lastActivityAt > b.lastActivityAt ? a : b;
+  return a.totalTokens >= b.totalTokens ? a : b;
+};
+
+function mergeDuplicateSessions(summaries: ParsedSummary[]): ParsedSummary[] {
+  const byId = new Map<string, ParsedSummary[]>();
+  for (const summary of summaries) {
+    const group = byId.get(summary.id);
+    if (group) {
+      group.push(summary);
+    } else {
+      byId.set(summary.id, [summary]);
     }
   }
+  return Array.from(byId.values()).map((group) => {
+    if (group.length === 1) return group[0];
+    const primary = group.reduce(preferSummary);
+    const duplicateSources = Array.from(
+      new Set(group.filter((summary) => summary !== primary).map((summary) => summary.source))
+    ).filter((source) => source !== primary.source);
+    return { ...primary, duplicateSources };
+  });
+}
 
-  if (!meta) return null;
+export type SessionFilter = { source?: string; hideArchived?: boolean; includeHidden?: boolean };
 
-  const snapshot = snapshotFromUsage(tokens);
+const projectIdentity = (session: SessionSummary) => ({
+  id: session.projectId,
+  name: session.projectName,
+  path: session.projectPath,
+});
 
-  const summary: SessionSummary = {
-    id: sessionId,
-    projectId: slugify(meta.cwd ?? "unknown"),
-    projectName: path.basename(meta.cwd ?? "unknown") || meta.cwd || "unknown",
-    projectPath: meta.cwd ?? "unknown",
-    relativePath: path.relative(CODEX_ROOT, filePath),
-    startedAt: startedAt || meta.timestamp || new Date(0).toISOString(),
-    lastActivityAt: lastActivityAt || startedAt || meta.timestamp || new Date(0).toISOString(),
-    preview: preview || "(no prompt logged)",
-    totalTokens: snapshot.totalTokens,
-    billedTokens: snapshot.billedTokens,
-    cachedTokens: snapshot.cachedTokens,
-    userTokens: snapshot.userTokens,
-    outputTokens: snapshot.outputTokens,
-    reasoningTokens: snapshot.reasoningTokens,
-    contextWindow,
-    toolCallCount: toolCalls.size,
+const matchesFilter = (session: SessionSummary, filter?: SessionFilter) => {
+  if (filter?.hideArchived && session.archived) return false;
+  if (!filter?.includeHidden && isProjectHidden(projectIdentity(session))) return false;
+  const source = filter?.source;
+  return !source || session.source === source || Boolean(session.duplicateSources?.includes(source));
+};
+
+// Projects, costs and project overrides are applied on the way out rather than
+// stored in the index, so new repositories and edits to the pricing or viewer
+// config take effect without reparsing any rollout.
+const presentSummary = async (summary: ParsedSummary): Promise<SessionSummary> => {
+  const project = configureProject(await resolveProject(summary.cwd));
+  return {
+    ...summary,
+    projectId: project.id,
+    projectName: project.name,
+    projectPath: project.path,
+    projectSubdirectory: project.subdirectory,
+    worktree: project.worktree,
+    cost: costForTokens(summary.config.model, summary),
   };
+};
 
-  summaryCache.set(filePath, { mtimeMs: stat.mtimeMs, summary });
-  return summary;
+// Every cwd is looked up before any id is handed out, so paths outside a
+// repository that share a slug all see each other.
+async function presentSummaries(summaries: ParsedSummary[]): Promise<SessionSummary[]> {
+  await Promise.all(summaries.map((summary) => resolveProject(summary.cwd)));
+  return Promise.all(summaries.map(presentSummary));
+}
+
+const refreshReadTimeConfig = async () => {
+  const [pricingChanged, configChanged] = await Promise.all([refreshPricing(), refreshViewerConfig()]);
+  return pricingChanged || configChanged;
+};
+
+const modelAt = (history: SessionConfigChange[], timestamp: string) =>
+  history.filter((change) => change.timestamp <= timestamp && change.config.model).at(-1)?.config.model;
+
+// Each point is priced with the model active when it was logged, so the
+// running total stays right when a session switches models mid-way. The delta
+// it was priced on is kept, so turns count the same tokens they are charged for.
+function priceTimeline(
+  points: TokenTimelinePoint[],
+  history: SessionConfigChange[],
+  fallbackModel?: string,
+  previous?: TokenTimelinePoint
+): TokenTimelinePoint[] {
+  let cost: number | null = previous ? (previous.cost ?? null) : 0;
+  let last = previous;
+  return points.map((point) => {
+    const delta = pointDelta(point, last);
+    const deltaCost = costForTokens(modelAt(history, point.timestamp) ?? fallbackModel, delta);
+    cost = cost === null || deltaCost === null ? null : cost + deltaCost;
+    last = point;
+    return { ...point, delta, cost, deltaCost };
+  });
 }
 
-export async function getSessionSummaries(): Promise<SessionSummary[]> {
-  if (sessionListCache && sessionListCache.expiresAt > Date.now()) {
-    return sessionListCache.summaries;
+const REJECTED_PATTERN =
+  /\b(?:rejected by (?:the )?user|user (?:denied|rejected|declined)|doesn't want to proceed|aborted by user|approval (?:was )?denied)\b/i;
+const PATCH_FAILURE_PATTERN = /\b(?:failed to apply patch|apply_patch verification failed|invalid patch|patch rejected)\b/i;
+const TIMEOUT_OUTPUT_PATTERN = /\b(?:timed out|timeout exceeded|deadline exceeded)\b/i;
+const ERROR_PREFIX_PATTERN = /^\s*(?:error|fatal|exception)\b[:\s]/i;
+
+const firstLine = (text: string) => {
+  const line = text.split("\n").find((candidate) => candidate.trim())?.trim() ?? "";
+  return line.length > 160 ? `${line.slice(0, 160)}…` : line;
+};
+
+// MCP and function results report failures inside a JSON body.
+function jsonError(output: string): string | null {
+  const parsed = output.trimStart().startsWith("{") ? safeParse<unknown>(output) : null;
+  if (!parsed || typeof parsed !== "object") return null;
+  const body = parsed as Record<string, unknown>;
+  if (body.isError === true || body.is_error === true || body.success === false) {
+    const content = Array.isArray(body.content)
+      ? body.content.map((item) => (item && typeof item === "object" ? (item as { text?: unknown }).text : item)).join("\n")
+      : body.content;
+    return typeof content === "string" && content.trim() ? firstLine(content) : "Tool reported an error";
   }
+  const error = body.error;
+  if (typeof error === "string" && error.trim()) return firstLine(error);
+  if (error && typeof error === "object" && typeof (error as { message?: unknown }).message === "string") {
+    return firstLine((error as { message: string }).message);
+  }
+  return null;
+}
+
+// MCP tools are namespaced `server__tool` (Claude prefixes them with `mcp__`).
+const isMcpCall = (call: ToolCall) => call.name.includes("__");
+
+// Decides whether a finished call worked. Calls still waiting for output are
+// left unclassified. A recorded exit code or error flag is the result; the
+// text patterns are only a fallback for shell, patch and MCP results that
+// carry neither, never for tools whose output is file content.
+export function classifyToolCall(call: ToolCall): ToolCall {
+  if (call.output === undefined && !call.metadata) return call;
+  const output = call.output ?? "";
+  const head = output.slice(0, 400);
+  const shell = parseShellCall(call);
+  const exitCode = shell?.exitCode ?? (typeof call.metadata?.exit_code === "number" ? call.metadata.exit_code : undefined);
+  const verdict = ((): { outcome: ToolOutcome; outcomeReason?: string } => {
+    if (shell?.timedOut || call.metadata?.timed_out === true) {
+      const limit = shell?.timeoutMs ? ` after ${Math.round(shell.timeoutMs / 1000)}s` : "";
+      return { outcome: "timed_out", outcomeReason: `Timed out${limit}` };
+    }
+    if (exitCode !== undefined) {
+      return exitCode === 0 ? { outcome: "succeeded" } : { outcome: "failed", outcomeReason: `Exit code ${exitCode}` };
+    }
+    if (call.metadata?.is_error === true) {
+      // The error flag already says the call did not succeed; the text only
+      // tells a refusal apart from a failure.
+      if (REJECTED_PATTERN.test(head)) return { outcome: "rejected", outcomeReason: firstLine(output) };
+      return { outcome: "failed", outcomeReason: firstLine(output) || "Tool reported an error" };
+    }
+    const patch = call.name === "apply_patch";
+    if (!shell && !patch && !isMcpCall(call)) return { outcome: "succeeded" };
+    if (REJECTED_PATTERN.test(head)) return { outcome: "rejected", outcomeReason: firstLine(output) };
+    if (!shell && TIMEOUT_OUTPUT_PATTERN.test(head)) return { outcome: "timed_out", outcomeReason: "Timed out" };
+    if (PATCH_FAILURE_PATTERN.test(head)) return { outcome: "failed", outcomeReason: firstLine(output) };
+    const reported = jsonError(output);
+    if (reported) return { outcome: "failed", outcomeReason: reported };
+    if (!shell && ERROR_PREFIX_PATTERN.test(output)) return { outcome: "failed", outcomeReason: firstLine(output) };
+    return { outcome: "succeeded" };
+  })();
+  return { ...call, ...verdict };
+}
+
+export const redactSessionText = (text: string) => redactText(text, redactionPatterns());
+const mask = redactSessionText;
+const maskOptional = (text?: string) => (text === undefined ? text : mask(text));
+
+const redactToolCall = (call: ToolCall): ToolCall => ({
+  ...call,
+  input: maskOptional(call.input),
+  output: maskOptional(call.output),
+  outcomeReason: maskOptional(call.outcomeReason),
+});
+
+export const redactSummary = (summary: SessionSummary): SessionSummary => ({ ...summary, preview: mask(summary.preview) });
+
+const redactShellCommand = (command: ShellCommand): ShellCommand => ({
+  ...command,
+  command: mask(command.command),
+  sessionPreview: maskOptional(command.sessionPreview),
+});
+
+// The redaction pipeline: every piece of session text a client can see goes
+// through the built-in secret patterns and the configured ones.
+export function redactSessionDetail(detail: SessionDetail): SessionDetail {
+  return {
+    ...detail,
+    summary: redactSummary(detail.summary),
+    messages: detail.messages.map((message) => ({ ...message, text: mask(message.text) })),
+    toolCalls: detail.toolCalls.map(redactToolCall),
+    fileChanges: detail.fileChanges.map((change) => ({
+      ...change,
+      hunks: change.hunks.map((hunk) => ({
+        header: mask(hunk.header),
+        lines: hunk.lines.map((line) => ({ ...line, text: mask(line.text) })),
+      })),
+    })),
+    fileActivity: detail.fileActivity.map((item) => ({ ...item, command: maskOptional(item.command) })),
+    shellCommands: detail.shellCommands.map(redactShellCommand),
+    turns: detail.turns.map((turn) => ({ ...turn, prompt: mask(turn.prompt), outcomeReason: maskOptional(turn.outcomeReason) })),
+  };
+}
+
+export function redactSessionUpdate(update: SessionDetailUpdate): SessionDetailUpdate {
+  return {
+    ...update,
+    summary: redactSummary(update.summary),
+    messages: update.messages.map((message) => ({ ...message, text: mask(message.text) })),
+    toolCalls: update.toolCalls.map(redactToolCall),
+    turnMarkers: update.turnMarkers.map((marker) => ({
+      ...marker,
+      reason: maskOptional(marker.reason),
+      prompt: maskOptional(marker.prompt),
+    })),
+  };
+}
+
+export const redactCommandReport = (report: CommandReport): CommandReport => ({
+  ...report,
+  failures: report.failures.map(redactShellCommand),
+  slowest: report.slowest.map(redactShellCommand),
+  repeated: report.repeated.map((group) => ({ ...group, command: mask(group.command) })),
+});
+
+export const redactFileStats = (files: ProjectFileStat[]): ProjectFileStat[] =>
+  files.map((file) => ({
+    ...file,
+    sessions: file.sessions.map((session) => ({ ...session, preview: mask(session.preview) })),
+  }));
+
+// Changes whenever a session's log grows or moves, for caches of derived data.
+export const sessionFingerprint = (summary: SessionSummary) =>
+  `${summary.source}:${summary.relativePath}:${summary.lastActivityAt}:${summary.totalTokens}`;
+
+export async function getSessionSummaries(options?: SessionFilter): Promise<SessionSummary[]> {
+  if (await refreshReadTimeConfig()) sessionListCache = null;
+  const watching = WATCH_MODE !== "off";
+  if (sessionListCache && (watching || sessionListCache.expiresAt > Date.now())) {
+    return sessionListCache.summaries.filter((session) => matchesFilter(session, options));
+  }
+  const generation = sessionListGeneration;
+  await ensureSummaryIndex();
   const files = await listSessionFiles();
-  const summaries: SessionSummary[] = [];
-  for (const file of files) {
-    const summary = await parseSessionSummary(file);
-    if (summary) summaries.push(summary);
+  const parsed = await mapWithConcurrency(files, Math.max(1, PARSE_WORKERS) * 2, async (file) => {
+    // The watcher already knows each file's size and mtime, so indexed summaries need no extra stat.
+    const known = watchedStat(file);
+    const cached = summaryCache.get(file);
+    const fresh = known && cached && cached.size === known.size && cached.mtimeMs === known.mtimeMs;
+    return fresh ? cached.summary : await parseSessionSummary(file);
+  });
+  const summaries = mergeDuplicateSessions(
+    parsed.filter((summary): summary is ParsedSummary => Boolean(summary))
+  );
+
+  const listed = new Set(files);
+  let pruned = false;
+  for (const filePath of Array.from(summaryCache.keys())) {
+    if (!listed.has(filePath)) {
+      summaryCache.delete(filePath);
+      summaryStates.delete(filePath);
+      pruned = true;
+    }
+  }
+  if (pruned) scheduleSummaryIndexWrite(summaryCache);
+  const sorted = (await presentSummaries(summaries)).sort((a, b) => (a.lastActivityAt < b.lastActivityAt ? 1 : -1));
+  if (generation === sessionListGeneration) {
+    sessionListCache = { summaries: sorted, expiresAt: Date.now() + SESSION_LIST_CACHE_MS };
   }
-  const sorted = summaries.sort((a, b) => (a.lastActivityAt < b.lastActivityAt ? 1 : -1));
-  sessionListCache = { summaries: sorted, expiresAt: Date.now() + SESSION_LIST_CACHE_MS };
-  return sorted;
+  return sorted.filter((session) => matchesFilter(session, options));
 }
 
-export async function getProjectSummaries(): Promise<ProjectSummary[]> {
-  const sessions = await getSessionSummaries();
+export async function getProjectSummaries(options?: SessionFilter): Promise<ProjectSummary[]> {
+  const sessions = await getSessionSummaries(options);
   const map = new Map<string, ProjectSummary>();
   for (const session of sessions) {
     const current = map.get(session.projectId) ?? {
       id: session.projectId,
       name: session.projectName,
       path: session.projectPath,
+      sources: [],
       sessionCount: 0,
       latestActivityAt: undefined,
       totalTokens: 0,
       billedTokens: 0,
+      cost: 0,
+      unpricedSessionCount: 0,
     };
     current.sessionCount += 1;
+    for (const source of [session.source, ...(session.duplicateSources ?? [])]) {
+      if (!current.sources.includes(source)) current.sources.push(source);
+    }
     current.totalTokens += session.totalTokens;
     current.billedTokens += session.billedTokens;
+    if (session.cost === null) {
+      current.unpricedSessionCount += 1;
+    } else {
+      current.cost += session.cost;
+    }
     if (!current.latestActivityAt || current.latestActivityAt < session.lastActivityAt) {
       current.latestActivityAt = session.lastActivityAt;
     }
@@ -402,167 +1079,119 @@ export async function getProjectSummaries(): Promise<ProjectSummary[]> {
   });
 }
 
-function buildToolCalls(events: CodexEvent[]): { toolCalls: ToolCall[]; toolCallCount: number } {
-  const calls = new Map<string, ToolCall>();
-  for (const event of events) {
-    if (event.type !== "response_item") continue;
-    const payload = toRecord(event.payload) as ResponsePayload | undefined;
-    if (!payload) continue;
-    const timestamp = typeof event.timestamp === "string" ? event.timestamp : undefined;
-    if (payload.type === "function_call" && typeof payload.call_id === "string") {
-      const existing = calls.get(payload.call_id) ?? {
-        id: payload.call_id,
-        name: payload.name ?? "function_call",
-        toolKind: "function" as const,
-        status: payload.status ?? "in_progress",
-      };
-      existing.name = payload.name ?? existing.name;
-      if (typeof payload.arguments === "string") {
-        existing.input = payload.arguments;
-      }
-      existing.startedAt = existing.startedAt ?? timestamp;
-      existing.status = payload.status ?? existing.status;
-      calls.set(payload.call_id, existing);
-    }
-    if (payload.type === "function_call_output" && typeof payload.call_id === "string") {
-      const existing = calls.get(payload.call_id);
-      if (existing) {
-        if (typeof payload.output === "string") {
-          existing.output = payload.output;
-        }
-        existing.completedAt = timestamp ?? existing.completedAt;
-        existing.status = "completed";
-      }
-    }
-    if (payload.type === "custom_tool_call" && typeof payload.call_id === "string") {
-      const existing = calls.get(payload.call_id) ?? {
-        id: payload.call_id,
-        name: payload.name ?? "custom_tool",
-        toolKind: "custom" as const,
-        status: payload.status ?? "in_progress",
-      };
-      if (typeof payload.input === "string") {
-        existing.input = payload.input;
-      }
-      existing.startedAt = existing.startedAt ?? timestamp;
-      existing.status = payload.status ?? existing.status;
-      calls.set(payload.call_id, existing);
-    }
-    if (payload.type === "custom_tool_call_output" && typeof payload.call_id === "string") {
-      const existing = calls.get(payload.call_id);
-      if (existing) {
-        const parsed =
-          typeof payload.output === "string"
-            ? safeParse<{ output?: string; metadata?: Record<string, unknown> }>(payload.output)
-            : (payload.output as { output?: string; metadata?: Record<string, unknown> } | undefined);
-        if (parsed?.output) {
-          existing.output = parsed.output;
-        } else if (typeof payload.output === "string") {
-          existing.output = payload.output;
-        }
-        existing.metadata = parsed?.metadata ?? existing.metadata;
-        existing.completedAt = timestamp ?? existing.completedAt;
-        existing.status = "completed";
-      }
-    }
-  }
-
-  const finalized = Array.from(calls.values()).map((call) => {
-    if (call.startedAt && call.completedAt) {
-      call.durationMs = new Date(call.completedAt).getTime() - new Date(call.startedAt).getTime();
-    }
-    return call;
+async function findSessionFile(sessionId: string): Promise<string | undefined> {
+  const files = await listSessionFiles();
+  const candidates = files.filter((file) => rootForFile(file).adapter.sessionIdFromPath(file) === sessionId);
+  if (candidates.length <= 1) return candidates[0];
+  const summaries = await Promise.all(candidates.map((file) => parseSessionSummary(file)));
+  let best: { file: string; summary: ParsedSummary } | undefined;
+  candidates.forEach((file, index) => {
+    const summary = summaries[index];
+    if (summary && (!best || preferSummary(best.summary, summary) === summary)) best = { file, summary };
   });
+  return best?.file ?? candidates[0];
+}
+
+export type RolloutTask =
+  | { kind: "summary"; filePath: string; state: SummaryParseState; end: number }
+  | { kind: "detail"; filePath: string; agent: string; end: number };
+
+type RolloutDetailResult = {
+  state: SummaryParseState;
+  messages: ChatMessage[];
+  tokenTimeline: TokenTimelinePoint[];
+  toolCalls: ToolCall[];
+  configHistory: SessionConfigChange[];
+  turnMarkers: TurnMarker[];
+};
+
+export type RolloutTaskResult = SummaryParseState | RolloutDetailResult;
+
+export async function runRolloutTask(task: RolloutTask): Promise<RolloutTaskResult> {
+  if (task.kind === "summary") {
+    const { state } = task;
+    const chunk = await readJsonlChunk(task.filePath, state.offset, task.end);
+    adapterFor(state.agent).applyRecords(state.data, chunk.events);
+    state.offset = chunk.offset;
+    return state;
+  }
 
-  return { toolCalls: finalized.sort((a, b) => (a.startedAt && b.startedAt ? (a.startedAt > b.startedAt ? 1 : -1) : 0)), toolCallCount: finalized.length };
+  const adapter = adapterFor(task.agent);
+  const stat = await fs.stat(task.filePath);
+  const { events, offset } = await readJsonlChunk(task.filePath, 0, task.end);
+  const state = createSummaryState(adapter, stat.ino);
+  adapter.applyRecords(state.data, events);
+  state.offset = offset;
+  const messages = adapter.buildMessages(events);
+  const tokenTimeline = adapter.buildTokenTimeline(events);
+  const toolCalls = adapter.buildToolCalls(events);
+  return {
+    state,
+    messages,
+    tokenTimeline,
+    toolCalls,
+    configHistory: adapter.buildConfigHistory(events),
+    turnMarkers: adapter.buildTurnMarkers(events),
+  };
 }
 
-function buildMessages(events: CodexEvent[]): ChatMessage[] {
-  const messages: ChatMessage[] = [];
-  for (const event of events) {
-    if (event.type === "response_item") {
-      const payload = toRecord(event.payload) as ResponsePayload | undefined;
-      if (!payload) continue;
-      if (payload.type === "message") {
-        const role = (payload.role ?? "assistant") as ChatMessage["role"];
-        messages.push({
-          id: `${event.timestamp}-message-${messages.length}`,
-          timestamp: typeof event.timestamp === "string" ? event.timestamp : new Date(0).toISOString(),
-          role,
-          kind: "text",
-          text: extractText(payload.content),
-        });
-        continue;
-      }
-      if (payload.type === "reasoning") {
-        const summaryText = Array.isArray(payload.summary)
-          ? payload.summary
-              .map((item: unknown) =>
-                typeof (item as { text?: string } | undefined)?.text === "string"
-                  ? ((item as { text: string }).text as string)
-                  : ""
-              )
-              .filter(Boolean)
-              .join("\n")
-          : "Reasoning log hidden";
-        messages.push({
-          id: `${event.timestamp}-reasoning-${messages.length}`,
-          timestamp: typeof event.timestamp === "string" ? event.timestamp : new Date(0).toISOString(),
-          role: "assistant",
-          kind: "reasoning",
-          text: summaryText || "Reasoning log hidden",
-        });
-        continue;
+function runRollout(task: RolloutTask): Promise<RolloutTaskResult> {
+  rolloutPool ??= createWorkerPool<RolloutTask, RolloutTaskResult>({
+    size: PARSE_WORKERS,
+    createWorker: () => {
+      if (!existsSync(PARSE_WORKER_SCRIPT)) {
+        throw new Error(`${PARSE_WORKER_SCRIPT} is missing; run \`npm run build:worker\``);
       }
-    }
+      // Not `new Worker(path)`: Turbopack would treat a dynamic path as a glob
+      // over the whole project and try to bundle it.
+      return Reflect.construct(Worker, [PARSE_WORKER_SCRIPT]) as Worker;
+    },
+    fallback: runRolloutTask,
+  });
+  return rolloutPool.run(task);
+}
 
-    if (event.type === "event_msg") {
-      const payload = toRecord(event.payload);
-      if (payload?.type === "agent_reasoning") {
-        messages.push({
-          id: `${event.timestamp}-agent-${messages.length}`,
-          timestamp: typeof event.timestamp === "string" ? event.timestamp : new Date(0).toISOString(),
-          role: "assistant",
-          kind: "status",
-          text: typeof payload.text === "string" ? payload.text : "",
-        });
-      }
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const runners = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+    while (next < items.length) {
+      const index = next;
+      next += 1;
+      results[index] = await fn(items[index]);
     }
-  }
-  return messages.sort((a, b) => (a.timestamp > b.timestamp ? 1 : -1));
+  });
+  await Promise.all(runners);
+  return results;
 }
 
-function buildTokenTimeline(events: CodexEvent[]): TokenTimelinePoint[] {
-  const points: TokenTimelinePoint[] = [];
-  for (const event of events) {
-    if (event.type !== "event_msg") continue;
-    const payload = toRecord(event.payload) as TokenPayload | undefined;
-    if (payload?.type === "token_count" && payload.info && payload.info.total_token_usage) {
-      const total = payload.info.total_token_usage;
-      const timestamp = typeof event.timestamp === "string" ? event.timestamp : new Date(0).toISOString();
-      const snapshot = snapshotFromUsage(total);
-      const delta = payload.info.last_token_usage ? snapshotFromUsage(payload.info.last_token_usage) : null;
-      points.push({
-        timestamp,
-        timestampMs: new Date(timestamp).getTime(),
-        totalTokens: snapshot.totalTokens,
-        inputTokens: snapshot.inputTokens,
-        cachedTokens: snapshot.cachedTokens,
-        userTokens: snapshot.userTokens,
-        outputTokens: snapshot.outputTokens,
-        reasoningTokens: snapshot.reasoningTokens,
-        billedTokens: snapshot.billedTokens,
-        contextWindow: payload.info.model_context_window,
-        delta,
-      });
-    }
+async function parseSessionDetail(filePath: string, end: number): Promise<RolloutDetailResult> {
+  const agent = rootForFile(filePath).adapter.id;
+  const result = (await runRollout({ kind: "detail", filePath, agent, end })) as RolloutDetailResult;
+  const current = summaryStates.get(filePath);
+  if (!current || current.ino !== result.state.ino || current.offset <= result.state.offset) {
+    summaryStates.set(filePath, result.state);
   }
-  return points.sort((a, b) => a.timestampMs - b.timestampMs);
+  return result;
 }
 
-async function findSessionFile(sessionId: string): Promise<string | undefined> {
-  const files = await listSessionFiles();
-  return files.find((file) => extractSessionId(file) === sessionId);
+// Everything derived from a parsed rollout, shared by indexed and imported sessions.
+function assembleSessionDetail(summary: SessionSummary, result: RolloutDetailResult): SessionDetail {
+  const { state, messages, configHistory, turnMarkers } = result;
+  const toolCalls = result.toolCalls.map(classifyToolCall);
+  const tokenTimeline = priceTimeline(result.tokenTimeline, configHistory, summary.config.model);
+  return {
+    summary,
+    messages,
+    tokenTimeline,
+    toolCalls,
+    fileChanges: buildFileChanges(toolCalls),
+    fileActivity: extractFileActivity(toolCalls, summary.cwd),
+    shellCommands: parseShellCommands(toolCalls),
+    configHistory,
+    turns: buildTurns({ messages, toolCalls, tokenTimeline, markers: turnMarkers }),
+    cursor: state.offset,
+  };
 }
 
 export async function getSessionDetail(sessionId: string): Promise<SessionDetail | null> {
@@ -570,21 +1199,112 @@ export async function getSessionDetail(sessionId: string): Promise<SessionDetail
   if (!filePath) return null;
   const stat = await fs.stat(filePath).catch(() => null);
   if (!stat) return null;
-  const events = await readJsonl(filePath);
-  const summary = (await parseSessionSummary(filePath, { events, stat })) ?? emptySummary;
-  const tokenTimeline = buildTokenTimeline(events);
-  const { toolCalls } = buildToolCalls(events);
-  const messages = buildMessages(events);
+  await refreshReadTimeConfig();
+  const result = await parseSessionDetail(filePath, stat.size);
+  const summary = await presentSummary((await parseSessionSummary(filePath, { stat })) ?? emptySummary);
+  return assembleSessionDetail(summary, result);
+}
 
-  return {
-    summary,
-    messages,
-    tokenTimeline,
-    toolCalls,
+// Parses a rollout that lives outside every session root, such as an uploaded
+// file, with whichever adapter recognises its records. Returns null when none does.
+export async function parseRolloutFile(
+  filePath: string,
+  options: { id: string; source: string; relativePath: string }
+): Promise<SessionDetail | null> {
+  await refreshReadTimeConfig();
+  const { events, offset } = await readJsonl(filePath);
+  for (const adapter of ADAPTERS) {
+    const state = { ...createSummaryState(adapter, 0), offset };
+    adapter.applyRecords(state.data, events);
+    const summary = summaryFromState(filePath, options.id, state, {
+      source: options.source,
+      relativePath: options.relativePath,
+      archived: false,
+    });
+    if (!summary) continue;
+    return assembleSessionDetail(await presentSummary(summary), {
+      state,
+      messages: adapter.buildMessages(events),
+      tokenTimeline: adapter.buildTokenTimeline(events),
+      toolCalls: adapter.buildToolCalls(events),
+      configHistory: adapter.buildConfigHistory(events),
+      turnMarkers: adapter.buildTurnMarkers(events),
+    });
+  }
+  return null;
+}
+
+export async function openSessionTail(sessionId: string, from?: number): Promise<SessionTail | null> {
+  const filePath = await findSessionFile(sessionId);
+  if (!filePath) return null;
+  const stat = await fs.stat(filePath).catch(() => null);
+  if (!stat) return null;
+
+  const { adapter } = rootForFile(filePath);
+  const start = typeof from === "number" && from >= 0 && from <= stat.size ? from : stat.size;
+  await refreshReadTimeConfig();
+  const initial = await parseSessionDetail(filePath, start);
+  const initialSummary = await parseSessionSummary(filePath, { stat });
+  let toolCalls = initial.toolCalls.map(classifyToolCall);
+  let messageCount = initial.messages.length;
+  let lastConfig = initial.configHistory.at(-1)?.config ?? initialSummary?.config;
+  let lastPoint = priceTimeline(initial.tokenTimeline, initial.configHistory, lastConfig?.model).at(-1);
+
+  const tail: SessionTail = {
+    cursor: initial.state.offset,
+    poll: async () => {
+      const current = await fs.stat(filePath).catch(() => null);
+      if (!current || current.size < tail.cursor) return "reset";
+      if (current.size === tail.cursor) return null;
+
+      const previous = tail.cursor;
+      const chunk = await readJsonlChunk(filePath, previous, current.size);
+      tail.cursor = chunk.offset;
+      if (!chunk.events.length) return null;
+
+      const messages = adapter.buildMessages(chunk.events, messageCount);
+      messageCount += messages.length;
+      const configHistory = adapter.buildConfigHistory(chunk.events, lastConfig);
+      const tokenTimeline = priceTimeline(
+        adapter.buildTokenTimeline(chunk.events, lastPoint),
+        configHistory,
+        lastConfig?.model,
+        lastPoint
+      );
+      lastPoint = tokenTimeline.at(-1) ?? lastPoint;
+      lastConfig = configHistory.at(-1)?.config ?? lastConfig;
+      const touchedCalls = new Set(adapter.toolCallIds(chunk.events));
+      toolCalls = adapter
+        .buildToolCalls(chunk.events, toolCalls)
+        .map((call) => (touchedCalls.has(call.id) ? classifyToolCall(call) : call));
+      const summary = await presentSummary(
+        (await parseSessionSummary(filePath, {
+          events: chunk.events,
+          stat: current,
+          from: previous,
+          offset: chunk.offset,
+        })) ?? emptySummary
+      );
+
+      return {
+        from: previous,
+        cursor: tail.cursor,
+        summary,
+        messages,
+        tokenTimeline,
+        configHistory,
+        turnMarkers: adapter.buildTurnMarkers(chunk.events),
+        toolCalls: toolCalls.filter((call) => touchedCalls.has(call.id)),
+      };
+    },
   };
+  return tail;
 }
 
-export async function getSessionsForProject(projectId: string): Promise<SessionSummary[]> {
-  const sessions = await getSessionSummaries();
+export async function getSessionsForProject(
+  projectId: string,
+  options?: SessionFilter
+): Promise<SessionSummary[]> {
+  const sessions = await getSessionSummaries(options);
   return sessions.filter((session) => session.projectId === projectId);
 }
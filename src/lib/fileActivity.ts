@@ -0,0 +1,190 @@
+import { safeParse } from "./adapters/shared";
+import type { FileActivity, FileActivityAction, ToolCall } from "./codex";
+import { extractPatchText, parsePatch } from "./patches";
+import { parseShellScript, readShellInvocation, type SimpleCommand } from "./shell";
+
+type Touch = { action: FileActivityAction; path: string };
+
+// Programs whose positional arguments are files to read.
+const READERS = new Set(["cat", "head", "tail", "less", "more", "nl", "wc", "bat", "stat", "file", "diff", "xxd", "od"]);
+// Programs whose first positional argument is a pattern or script, not a file.
+const PATTERN_FIRST = new Set(["grep", "egrep", "fgrep", "rg", "ag", "sed", "awk", "jq"]);
+// Options that consume the following argument, per program.
+const VALUE_OPTIONS: Record<string, string[]> = {
+  head: ["-n", "-c"],
+  tail: ["-n", "-c"],
+  sed: ["-e", "-f"],
+  awk: ["-F", "-v", "-f"],
+  grep: ["-e", "-f", "-A", "-B", "-C", "-m", "--include", "--exclude"],
+  rg: ["-e", "-f", "-g", "--glob", "-t", "--type", "-T", "--type-not", "-A", "-B", "-C", "-m", "--max-count"],
+  ag: ["-G", "-A", "-B", "-C", "-m"],
+  jq: ["--arg", "--argjson"],
+};
+// Searches that walk directories given as arguments.
+const RECURSIVE_SEARCHES = new Set(["rg", "ag"]);
+// Options that supply the pattern or script (or make it unnecessary), so no
+// positional argument does.
+const PATTERN_OPTIONS = new Set(["-e", "-f", "--regexp", "--file", "--files"]);
+
+const CLAUDE_FILE_TOOLS: Record<string, { action: FileActivityAction; field: string }> = {
+  Read: { action: "read", field: "file_path" },
+  Write: { action: "write", field: "file_path" },
+  Edit: { action: "write", field: "file_path" },
+  MultiEdit: { action: "write", field: "file_path" },
+  NotebookEdit: { action: "write", field: "notebook_path" },
+};
+
+const isPathLike = (value: string) =>
+  Boolean(value) &&
+  value !== "-" &&
+  !value.startsWith("$") &&
+  !value.startsWith("/dev/") &&
+  !value.includes("://") &&
+  !/[*?[\]{}]/.test(value);
+
+// Lexical only: the files may no longer exist, and this also runs in the browser.
+export function normalizePath(value: string, base?: string): string {
+  const joined = base && !value.startsWith("/") && !value.startsWith("~") ? `${base}/${value}` : value;
+  const absolute = joined.startsWith("/");
+  const parts: string[] = [];
+  for (const part of joined.split("/")) {
+    if (!part || part === ".") continue;
+    if (part === ".." && parts.length && parts.at(-1) !== "..") {
+      parts.pop();
+    } else {
+      parts.push(part);
+    }
+  }
+  return `${absolute ? "/" : ""}${parts.join("/")}` || ".";
+}
+
+const isRecursiveSearch = (program: string, args: string[]) =>
+  RECURSIVE_SEARCHES.has(program) ||
+  (program.endsWith("grep") && args.some((arg) => arg === "--recursive" || /^-[a-zA-Z]*[rR]/.test(arg)));
+
+// A directory handed to a search is not a file read; without touching the disk
+// the best signal is a trailing slash or a last segment with no extension.
+const isDirectoryLike = (value: string) => {
+  const name = value.replace(/\/+$/, "").split("/").pop() ?? "";
+  return value.endsWith("/") || name === "" || name === "." || name === ".." || !name.includes(".", 1);
+};
+
+function positionals(program: string, args: string[]) {
+  const valueOptions = VALUE_OPTIONS[program] ?? [];
+  const result: string[] = [];
+  let patternGiven = false;
+  let optionsDone = false;
+  for (let index = 0; index < args.length; index += 1) {
+    const arg = args[index];
+    if (!optionsDone && arg === "--") {
+      optionsDone = true;
+    } else if (!optionsDone && arg.startsWith("-") && arg !== "-") {
+      if (PATTERN_OPTIONS.has(arg) && PATTERN_FIRST.has(program)) patternGiven = true;
+      if (valueOptions.includes(arg)) index += 1;
+    } else {
+      result.push(arg);
+    }
+  }
+  return PATTERN_FIRST.has(program) && !patternGiven ? result.slice(1) : result;
+}
+
+function touchesFromCommand(command: SimpleCommand): Touch[] {
+  const touches: Touch[] = [];
+  for (const { op, target } of command.redirects) {
+    if (op === "<") touches.push({ action: "read", path: target });
+    if ((op === ">" || op === ">>" || op === "&>" || op === ">|") && isPathLike(target)) {
+      touches.push({ action: "write", path: target });
+    }
+  }
+
+  let [program, ...args] = command.args;
+  if (!program) return touches;
+  if (program === "sudo" || program === "command") [program, ...args] = args;
+  if (program === "git" && (args[0] === "rm" || args[0] === "mv")) [program, ...args] = args;
+  program = program?.split("/").pop() ?? "";
+  const files = positionals(program, args);
+  const inPlace = args.some((arg) => arg === "-i" || arg.startsWith("-i.") || arg === "--in-place");
+
+  if (READERS.has(program) || PATTERN_FIRST.has(program)) {
+    const action = program === "sed" && inPlace ? "write" : "read";
+    const recursive = isRecursiveSearch(program, args);
+    files.filter((file) => !recursive || !isDirectoryLike(file)).forEach((file) => touches.push({ action, path: file }));
+  } else if (program === "perl" && inPlace) {
+    files.slice(1).forEach((file) => touches.push({ action: "write", path: file }));
+  } else if (program === "touch" || program === "tee") {
+    files.forEach((file) => touches.push({ action: "write", path: file }));
+  } else if (program === "rm" || program === "unlink") {
+    files.forEach((file) => touches.push({ action: "delete", path: file }));
+  } else if ((program === "cp" || program === "mv") && files.length >= 2) {
+    const target = files[files.length - 1];
+    for (const source of files.slice(0, -1)) {
+      touches.push({ action: program === "cp" ? "read" : "delete", path: source });
+    }
+    touches.push({ action: "write", path: target });
+  }
+  return touches;
+}
+
+function touchesFromShell(script: string, workdir?: string): Touch[] {
+  const touches: Touch[] = [];
+  let base = workdir;
+  for (const command of parseShellScript(script)) {
+    if (command.args[0] === "cd" && command.args[1]) {
+      base = normalizePath(command.args[1], base);
+      continue;
+    }
+    for (const touch of touchesFromCommand(command)) {
+      if (isPathLike(touch.path)) touches.push({ ...touch, path: normalizePath(touch.path, base) });
+    }
+  }
+  return touches;
+}
+
+function touchesFromCall(call: ToolCall, cwd?: string): { touches: Touch[]; command?: string } {
+  const shell = readShellInvocation(call);
+  const base = shell?.workdir ?? cwd;
+  const patch = extractPatchText(call.input);
+  if (patch) {
+    const touches = parsePatch(patch).flatMap((change): Touch[] => {
+      if (change.action === "delete") return [{ action: "delete", path: change.path }];
+      if (change.movePath) return [{ action: "delete", path: change.path }, { action: "write", path: change.movePath }];
+      return [{ action: "write", path: change.path }];
+    });
+    return { touches: touches.map((touch) => ({ ...touch, path: normalizePath(touch.path, base) })) };
+  }
+
+  const claudeTool = CLAUDE_FILE_TOOLS[call.name];
+  if (claudeTool && call.input) {
+    const value = safeParse<Record<string, unknown>>(call.input)?.[claudeTool.field];
+    return { touches: typeof value === "string" ? [{ action: claudeTool.action, path: normalizePath(value, base) }] : [] };
+  }
+
+  return shell ? { touches: touchesFromShell(shell.script, base), command: shell.script } : { touches: [] };
+}
+
+// File reads, writes and deletes implied by a session's tool calls: patch
+// envelopes, Claude's file tools, and the arguments and redirects of shell
+// commands. Paths are as exact as the call made them, resolved against the
+// call's working directory (or the session's) and any `cd`.
+export function extractFileActivity(toolCalls: ToolCall[], cwd?: string): FileActivity[] {
+  return toolCalls.flatMap((call) => {
+    const { touches, command } = touchesFromCall(call, cwd);
+    const seen = new Set<string>();
+    return touches.flatMap((touch) => {
+      const key = `${touch.action}:${touch.path}`;
+      if (seen.has(key)) return [];
+      seen.add(key);
+      return [
+        {
+          id: `${call.id}-${seen.size}`,
+          callId: call.id,
+          tool: call.name,
+          timestamp: call.startedAt ?? call.completedAt,
+          action: touch.action,
+          path: touch.path,
+          command,
+        },
+      ];
+    });
+  });
+}
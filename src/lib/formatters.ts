@@ -1,3 +1,5 @@
+import type { ToolCall, ToolOutcome } from "./codex";
+
 const defaultDateFormat: Intl.DateTimeFormatOptions = {
   month: "short",
   day: "numeric",
@@ -30,3 +32,53 @@ export const shortId = (value: string, visible = 4) => {
   if (value.length <= visible * 2) return value;
   return `${value.slice(0, visible)}...${value.slice(-visible)}`;
 };
+
+export const formatDuration = (ms?: number) => {
+  if (ms === undefined || Number.isNaN(ms)) return "—";
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+// Like formatDuration, but keeps sub-second timings readable.
+export const formatPreciseDuration = (ms?: number) =>
+  ms !== undefined && ms < 1000 ? `${Math.round(ms)}ms` : formatDuration(ms);
+
+export const averageDuration = ({ durationMs, timedCalls }: { durationMs: number; timedCalls: number }) =>
+  timedCalls ? formatPreciseDuration(durationMs / timedCalls) : "—";
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ["KB", "MB", "GB"];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit += 1;
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+};
+
+export const formatCost = (value: number | null | undefined) => {
+  if (value === null || value === undefined) return "unknown model";
+  if (value > 0 && value < 0.01) return "<$0.01";
+  return `$${value.toFixed(2)}`;
+};
+
+const OUTCOME_LABELS: Record<ToolOutcome, string> = {
+  succeeded: "succeeded",
+  failed: "failed",
+  timed_out: "timed out",
+  rejected: "rejected",
+};
+
+export const isFailedToolCall = (call: Pick<ToolCall, "outcome">) =>
+  call.outcome !== undefined && call.outcome !== "succeeded";
+
+export const formatToolOutcome = (call: Pick<ToolCall, "status" | "outcome" | "outcomeReason">) => {
+  if (!call.outcome) return call.status;
+  const label = OUTCOME_LABELS[call.outcome];
+  return call.outcomeReason ? `${label}: ${call.outcomeReason}` : label;
+};
@@ -0,0 +1,95 @@
+import path from "path";
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import { parseRolloutFile, type SessionDetail, type SessionSummary } from "./codex";
+import { CACHE_DIR } from "./summaryIndex";
+
+// Uploaded rollouts live apart from every session root, so they never show up
+// in project listings, search or stats.
+const IMPORT_DIR = process.env.CODEX_VIEWER_IMPORT_DIR ?? path.join(CACHE_DIR, "imports");
+export const MAX_IMPORT_BYTES = Number(process.env.CODEX_VIEWER_IMPORT_MAX_BYTES ?? 200 * 1024 * 1024);
+export const IMPORT_SOURCE = "imported";
+
+export type ImportedSession = {
+  id: string;
+  fileName: string;
+  importedAt: string;
+  size: number;
+  summary: SessionSummary;
+};
+
+export type ImportResult = { imported: ImportedSession } | { error: string };
+
+const ID_PATTERN = /^imp-[a-f0-9]{12}$/;
+const GZIP_MAGIC = [0x1f, 0x8b];
+
+const metaPath = (id: string) => path.join(IMPORT_DIR, `${id}.json`);
+
+async function rolloutPath(id: string): Promise<string | null> {
+  for (const extension of [".jsonl", ".jsonl.gz"]) {
+    const candidate = path.join(IMPORT_DIR, `${id}${extension}`);
+    if (await fs.stat(candidate).catch(() => null)) return candidate;
+  }
+  return null;
+}
+
+async function readMeta(id: string): Promise<ImportedSession | null> {
+  try {
+    return JSON.parse(await fs.readFile(metaPath(id), "utf-8")) as ImportedSession;
+  } catch {
+    return null;
+  }
+}
+
+export async function importRollout(name: string, data: Buffer): Promise<ImportResult> {
+  const fileName = path.basename(name) || "rollout.jsonl";
+  if (!data.length) return { error: `${fileName} is empty` };
+  if (data.length > MAX_IMPORT_BYTES) return { error: `${fileName} is larger than the import limit` };
+  const id = `imp-${randomUUID().replace(/-/g, "").slice(0, 12)}`;
+  const compressed = data[0] === GZIP_MAGIC[0] && data[1] === GZIP_MAGIC[1];
+  const filePath = path.join(IMPORT_DIR, `${id}${compressed ? ".jsonl.gz" : ".jsonl"}`);
+  await fs.mkdir(IMPORT_DIR, { recursive: true });
+  await fs.writeFile(filePath, data);
+
+  const detail = await parseRolloutFile(filePath, { id, source: IMPORT_SOURCE, relativePath: fileName }).catch(
+    () => null
+  );
+  if (!detail) {
+    await fs.rm(filePath, { force: true });
+    return { error: `${fileName} is not a Codex or Claude rollout` };
+  }
+  const imported: ImportedSession = {
+    id,
+    fileName,
+    importedAt: new Date().toISOString(),
+    size: data.length,
+    summary: detail.summary,
+  };
+  await fs.writeFile(metaPath(id), `${JSON.stringify(imported, null, 2)}\n`);
+  return { imported };
+}
+
+export async function listImports(): Promise<ImportedSession[]> {
+  const entries = await fs.readdir(IMPORT_DIR).catch(() => [] as string[]);
+  const ids = entries.filter((entry) => entry.endsWith(".json")).map((entry) => entry.slice(0, -".json".length));
+  const imports = await Promise.all(ids.filter((id) => ID_PATTERN.test(id)).map(readMeta));
+  return imports
+    .filter((entry): entry is ImportedSession => Boolean(entry))
+    .sort((a, b) => (a.importedAt < b.importedAt ? 1 : -1));
+}
+
+export async function getImportedSession(id: string): Promise<SessionDetail | null> {
+  if (!ID_PATTERN.test(id)) return null;
+  const [meta, filePath] = await Promise.all([readMeta(id), rolloutPath(id)]);
+  if (!meta || !filePath) return null;
+  return parseRolloutFile(filePath, { id, source: IMPORT_SOURCE, relativePath: meta.fileName });
+}
+
+export async function deleteImport(id: string): Promise<boolean> {
+  if (!ID_PATTERN.test(id)) return false;
+  const filePath = await rolloutPath(id);
+  const meta = await readMeta(id);
+  if (!filePath && !meta) return false;
+  await Promise.all([filePath && fs.rm(filePath, { force: true }), fs.rm(metaPath(id), { force: true })]);
+  return true;
+}
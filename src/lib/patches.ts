@@ -0,0 +1,106 @@
+import type { FileChange, PatchHunk, ToolCall } from "./codex";
+
+const BEGIN_MARKER = "*** Begin Patch";
+const END_MARKER = "*** End Patch";
+const FILE_HEADER = /^\*\*\* (Add|Update|Delete) File: (.+)$/;
+const MOVE_HEADER = /^\*\*\* Move to: (.+)$/;
+
+type ParsedChange = Omit<FileChange, "id" | "callId" | "timestamp">;
+
+const collectStrings = (value: unknown, into: string[]) => {
+  if (typeof value === "string") {
+    into.push(value);
+  } else if (Array.isArray(value)) {
+    value.forEach((item) => collectStrings(item, into));
+  } else if (value && typeof value === "object") {
+    Object.values(value).forEach((item) => collectStrings(item, into));
+  }
+  return into;
+};
+
+// `apply_patch` arrives either as a custom tool call whose input is the patch
+// itself, or as a shell call carrying it in its (JSON) arguments.
+export function extractPatchText(input?: string): string | null {
+  if (!input?.includes(BEGIN_MARKER)) return null;
+  let candidates = [input];
+  try {
+    candidates = collectStrings(JSON.parse(input), []);
+  } catch {
+    // not JSON, the input is the patch (or a heredoc wrapping it)
+  }
+  const text = candidates.find((candidate) => candidate.includes(BEGIN_MARKER));
+  if (!text) return null;
+  const start = text.indexOf(BEGIN_MARKER);
+  const end = text.indexOf(END_MARKER, start);
+  return text.slice(start, end === -1 ? undefined : end + END_MARKER.length);
+}
+
+export function parsePatch(text: string): ParsedChange[] {
+  const changes: ParsedChange[] = [];
+  let current: ParsedChange | null = null;
+  let hunk: PatchHunk | null = null;
+
+  const pushLine = (kind: "context" | "add" | "remove", line: string) => {
+    if (!current) return;
+    if (!hunk) {
+      hunk = { header: "", lines: [] };
+      current.hunks.push(hunk);
+    }
+    hunk.lines.push({ kind, text: line });
+    if (kind === "add") current.added += 1;
+    if (kind === "remove") current.removed += 1;
+  };
+
+  for (const line of text.split("\n")) {
+    if (line.startsWith(BEGIN_MARKER) || line.startsWith(END_MARKER) || line === "*** End of File") continue;
+
+    const header = line.match(FILE_HEADER);
+    if (header) {
+      const action = header[1].toLowerCase() as FileChange["action"];
+      current = { action, path: header[2].trim(), hunks: [], added: 0, removed: 0 };
+      hunk = null;
+      changes.push(current);
+      continue;
+    }
+    if (!current) continue;
+
+    const move = line.match(MOVE_HEADER);
+    if (move) {
+      current.movePath = move[1].trim();
+      continue;
+    }
+    if (line.startsWith("@@")) {
+      hunk = { header: line.slice(2).trim(), lines: [] };
+      current.hunks.push(hunk);
+      continue;
+    }
+    if (line.startsWith("+")) {
+      pushLine("add", line.slice(1));
+    } else if (line.startsWith("-")) {
+      pushLine("remove", line.slice(1));
+    } else if (current.action === "update" && (line.startsWith(" ") || line === "")) {
+      pushLine("context", line.slice(1));
+    }
+  }
+
+  // A trailing newline in the envelope shows up as an empty context line.
+  for (const change of changes) {
+    const last = change.hunks.at(-1);
+    while (last?.lines.length && last.lines.at(-1)?.kind === "context" && !last.lines.at(-1)?.text) last.lines.pop();
+  }
+  return changes;
+}
+
+export function buildFileChanges(toolCalls: ToolCall[]): FileChange[] {
+  return toolCalls.flatMap((call) => {
+    const text = extractPatchText(call.input);
+    if (!text) return [];
+    const timestamp = call.startedAt ?? call.completedAt;
+    return parsePatch(text).map((change, index) => ({
+      ...change,
+      id: `${call.id}-${index}`,
+      callId: call.id,
+      timestamp,
+    }));
+  });
+}
@@ -0,0 +1,78 @@
+import path from "path";
+import os from "os";
+import { promises as fs } from "fs";
+import type { TokenDelta } from "./codex";
+
+// USD per million tokens. `cachedInput` falls back to `input` when omitted.
+export type ModelPrice = {
+  input: number;
+  cachedInput?: number;
+  output: number;
+};
+
+const PRICING_FILE =
+  process.env.CODEX_VIEWER_PRICING_FILE ?? path.join(os.homedir(), ".config", "mooomooo-viewer", "pricing.json");
+
+let pricingTable: Record<string, ModelPrice> = {};
+let pricingMtimeMs: number | null = null;
+
+const isPrice = (value: unknown): value is ModelPrice => {
+  if (!value || typeof value !== "object") return false;
+  const price = value as Record<string, unknown>;
+  return (
+    typeof price.input === "number" &&
+    typeof price.output === "number" &&
+    (price.cachedInput === undefined || typeof price.cachedInput === "number")
+  );
+};
+
+// The pricing file maps model names to prices; a trailing `*` matches any
+// model starting with the rest of the key. Returns true when the table changed.
+export async function refreshPricing(): Promise<boolean> {
+  const stat = await fs.stat(PRICING_FILE).catch(() => null);
+  const mtimeMs = stat?.mtimeMs ?? -1;
+  if (mtimeMs === pricingMtimeMs) return false;
+  pricingMtimeMs = mtimeMs;
+  pricingTable = {};
+  if (!stat) return true;
+  try {
+    const parsed = JSON.parse(await fs.readFile(PRICING_FILE, "utf-8")) as Record<string, unknown>;
+    for (const [model, price] of Object.entries(parsed)) {
+      if (isPrice(price)) {
+        pricingTable[model] = price;
+      } else {
+        console.warn(`Ignoring invalid price for ${model} in ${PRICING_FILE}`);
+      }
+    }
+  } catch (error) {
+    console.error(`Failed to read pricing file ${PRICING_FILE}`, error);
+  }
+  return true;
+}
+
+export function priceForModel(model?: string): ModelPrice | null {
+  if (!model) return null;
+  if (pricingTable[model]) return pricingTable[model];
+  let best: { prefix: string; price: ModelPrice } | null = null;
+  for (const [key, price] of Object.entries(pricingTable)) {
+    if (!key.endsWith("*")) continue;
+    const prefix = key.slice(0, -1);
+    if (model.startsWith(prefix) && (!best || prefix.length > best.prefix.length)) best = { prefix, price };
+  }
+  return best?.price ?? null;
+}
+
+// Reasoning tokens are already part of the output count, so they are not
+// charged a second time. Returns null when the model has no price.
+export function costForTokens(
+  model: string | undefined,
+  tokens: Pick<TokenDelta, "userTokens" | "cachedTokens" | "outputTokens">
+): number | null {
+  const price = priceForModel(model);
+  if (!price) return null;
+  const cachedInput = price.cachedInput ?? price.input;
+  return (
+    (tokens.userTokens * price.input + tokens.cachedTokens * cachedInput + tokens.outputTokens * price.output) /
+    1_000_000
+  );
+}
@@ -0,0 +1,11 @@
+import type { CommandReport, SessionFilter } from "./codex";
+import { getProjectSessionActivity } from "./sessionActivity";
+import { buildCommandReport } from "./shell";
+
+export async function getProjectCommandReport(projectId: string, options?: SessionFilter): Promise<CommandReport> {
+  const sessions = await getProjectSessionActivity(projectId, options);
+  const commands = sessions.flatMap(({ session, activity }) =>
+    activity.shellCommands.map((command) => ({ ...command, sessionId: session.id, sessionPreview: session.preview }))
+  );
+  return buildCommandReport(commands);
+}
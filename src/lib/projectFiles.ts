@@ -0,0 +1,40 @@
+import type { ProjectFileStat, SessionFilter, SessionSummary } from "./codex";
+import { normalizePath } from "./fileActivity";
+import { getProjectSessionActivity } from "./sessionActivity";
+
+// Sessions launched from a subdirectory or a worktree log paths relative to
+// where they ran; mapping them onto the project root lets them add up.
+function projectRelativePath(filePath: string, summary: SessionSummary) {
+  const checkout = summary.worktree ?? summary.projectPath;
+  const cwd = summary.projectSubdirectory ? `${checkout}/${summary.projectSubdirectory}` : checkout;
+  const absolute = normalizePath(filePath, cwd);
+  for (const root of [checkout, summary.projectPath]) {
+    if (absolute.startsWith(`${root}/`)) return absolute.slice(root.length + 1);
+  }
+  return absolute;
+}
+
+export async function getProjectFileStats(projectId: string, options?: SessionFilter): Promise<ProjectFileStat[]> {
+  const files = new Map<string, ProjectFileStat>();
+  for (const { session, activity } of await getProjectSessionActivity(projectId, options)) {
+    for (const item of activity.fileActivity) {
+      const path = projectRelativePath(item.path, session);
+      const stat = files.get(path) ?? { path, reads: 0, writes: 0, deletes: 0, sessions: [] };
+      let perSession = stat.sessions.find((entry) => entry.sessionId === session.id);
+      if (!perSession) {
+        perSession = { sessionId: session.id, preview: session.preview, reads: 0, writes: 0, deletes: 0 };
+        stat.sessions.push(perSession);
+      }
+      const key = item.action === "read" ? "reads" : item.action === "write" ? "writes" : "deletes";
+      stat[key] += 1;
+      perSession[key] += 1;
+      if (item.timestamp) {
+        if (!stat.lastAt || item.timestamp > stat.lastAt) stat.lastAt = item.timestamp;
+        if (!perSession.lastAt || item.timestamp > perSession.lastAt) perSession.lastAt = item.timestamp;
+      }
+      files.set(path, stat);
+    }
+  }
+
+  return Array.from(files.values()).sort((a, b) => b.reads + b.writes + b.deletes - (a.reads + a.writes + a.deletes));
+}
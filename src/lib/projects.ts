@@ -0,0 +1,111 @@
+import path from "path";
+import os from "os";
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+
+export type ResolvedProject = {
+  id: string;
+  name: string;
+  path: string;
+  subdirectory?: string;
+  worktree?: string;
+};
+
+type Lookup = { project: ResolvedProject; inRepository: boolean };
+
+// Repositories get created, moved and deleted, so lookups are only reused briefly.
+const PROJECT_CACHE_MS = 60_000;
+const MAX_CACHED_LOOKUPS = 2000;
+const resolved = new Map<string, { lookup: Promise<Lookup>; expiresAt: number }>();
+// Paths outside any repository, by slug, to tell when two of them collide.
+const fallbackPaths = new Map<string, Set<string>>();
+
+export const slugify = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/(^-|-$)/g, "");
+
+const shortHash = (value: string) => createHash("sha1").update(value).digest("hex").slice(0, 8);
+
+// A checkout's `.git` is a directory; linked worktrees and submodules have a
+// `.git` file pointing at their git dir instead. The walk stops below the home
+// directory so a dotfiles repository in `~` doesn't swallow every project.
+async function findCheckout(start: string): Promise<{ root: string; gitPath: string; isFile: boolean } | null> {
+  const home = os.homedir();
+  let dir = start;
+  while (dir !== home) {
+    const gitPath = path.join(dir, ".git");
+    try {
+      const stat = await fs.stat(gitPath);
+      return { root: dir, gitPath, isFile: stat.isFile() };
+    } catch {
+      // keep walking up
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) return null;
+    dir = parent;
+  }
+  return null;
+}
+
+// A linked worktree's git dir holds a `commondir` file naming the main
+// repository's `.git`; that repository's root is the project root.
+async function mainRepositoryRoot(checkout: { root: string; gitPath: string }): Promise<string | null> {
+  try {
+    const pointer = (await fs.readFile(checkout.gitPath, "utf-8")).match(/^gitdir:\s*(.+)$/m)?.[1]?.trim();
+    if (!pointer) return null;
+    const gitDir = path.resolve(checkout.root, pointer);
+    const commonDir = path.resolve(gitDir, (await fs.readFile(path.join(gitDir, "commondir"), "utf-8")).trim());
+    return path.basename(commonDir) === ".git" ? path.dirname(commonDir) : null;
+  } catch {
+    return null;
+  }
+}
+
+// Paths outside any repository keep the slugified cwd as their id. Only when
+// two of them slugify alike (`/a/b-c`, `/a-b/c`) do all but the first, in path
+// order, get a hash appended.
+function fallbackId(key: string) {
+  const slug = slugify(key);
+  const [first] = Array.from(fallbackPaths.get(slug) ?? []).sort();
+  return !first || first === key ? slug : `${slug}-${shortHash(key)}`;
+}
+
+// Groups sessions by the enclosing git repository, so launching from a
+// subdirectory or a worktree lands in the same project.
+export async function resolveProject(cwd: string | undefined): Promise<ResolvedProject> {
+  const key = cwd ?? "unknown";
+  let cached = resolved.get(key);
+  if (!cached || cached.expiresAt <= Date.now()) {
+    resolved.delete(key);
+    const oldest = resolved.keys().next();
+    if (resolved.size >= MAX_CACHED_LOOKUPS && !oldest.done) resolved.delete(oldest.value);
+    cached = { lookup: lookupProject(key, cwd), expiresAt: Date.now() + PROJECT_CACHE_MS };
+    resolved.set(key, cached);
+  }
+  const { project, inRepository } = await cached.lookup;
+  return inRepository ? project : { ...project, id: fallbackId(key) };
+}
+
+async function lookupProject(key: string, cwd: string | undefined): Promise<Lookup> {
+  const checkout = cwd && path.isAbsolute(cwd) ? await findCheckout(cwd) : null;
+  if (!checkout) {
+    const slug = slugify(key);
+    fallbackPaths.set(slug, (fallbackPaths.get(slug) ?? new Set<string>()).add(key));
+    return { project: { id: slug, name: path.basename(key) || key, path: key }, inRepository: false };
+  }
+  const mainRoot = checkout.isFile ? await mainRepositoryRoot(checkout) : checkout.root;
+  const root = mainRoot ?? checkout.root;
+  const subdirectory = path.relative(checkout.root, key);
+  return {
+    project: {
+      id: `${slugify(path.basename(root)) || "repo"}-${shortHash(root)}`,
+      name: path.basename(root) || root,
+      path: root,
+      subdirectory: subdirectory || undefined,
+      worktree: root !== checkout.root ? checkout.root : undefined,
+    },
+    inRepository: true,
+  };
+}
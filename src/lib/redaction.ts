@@ -0,0 +1,43 @@
+export const REDACTED = "[REDACTED]";
+
+// Patterns with a capture group keep that group (a variable name, `Bearer `,
+// a URL's user) and mask only what follows it.
+const SECRET_PATTERNS: RegExp[] = [
+  /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?(?:-----END [A-Z ]*PRIVATE KEY-----|$)/g,
+  /\bsk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}/g,
+  /\bgh[pousr]_[A-Za-z0-9]{30,}\b/g,
+  /\bgithub_pat_[A-Za-z0-9_]{22,}\b/g,
+  /\bgl(?:pat|ptt|rt)-[A-Za-z0-9_-]{20,}\b/g,
+  /\b(?:AKIA|ASIA)[A-Z0-9]{16}\b/g,
+  /\bxox[abprs]-[A-Za-z0-9-]{10,}/g,
+  /\bAIza[0-9A-Za-z_-]{35}\b/g,
+  /\b[rs]k_(?:live|test)_[A-Za-z0-9]{16,}\b/g,
+  /\bnpm_[A-Za-z0-9]{36}\b/g,
+  /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g,
+  /(\bBearer\s+)[A-Za-z0-9._~+/-]{16,}=*/gi,
+  /(\b[a-z][a-z0-9+.-]*:\/\/[^\s:/@]+:)[^\s@/]+(?=@)/gi,
+  // Key names are capped at 64 characters around the keyword; unbounded runs
+  // backtrack quadratically on long identifier-like output.
+  // A quoted value runs to its closing quote, spaces included: `DB_PASSWORD="p@ss w0rd"`.
+  /((?:^|[\s"'{,;(])(?:export\s+)?[A-Za-z0-9_.-]{0,64}(?:secret|token|passw(?:or)?d|api[_-]?key|access[_-]?key|private[_-]?key|credentials?)[A-Za-z0-9_.-]{0,64}["']?\s*[:=]\s*(["']))(?=(?:(?!\2)[^\n])*[A-Za-z])(?:(?!\2)[^\\\n]|\\.){6,}(?=\2)/gim,
+  // `API_KEY=…`, `"password": "…"`, `export GITHUB_TOKEN=…`. The value needs a
+  // letter, so `max_tokens: 4096` survives, and must not be a call like `getToken()`.
+  /((?:^|[\s"'{,;(])(?:export\s+)?[A-Za-z0-9_.-]{0,64}(?:secret|token|passw(?:or)?d|api[_-]?key|access[_-]?key|private[_-]?key|credentials?)[A-Za-z0-9_.-]{0,64}["']?\s*[:=]\s*["']?)(?=[^\s"',;()]*[A-Za-z])[^\s"',;()]{6,}(?![\w(])/gim,
+];
+
+// User patterns always mask their whole match.
+export function redactText(text: string, extra: RegExp[] = []): string {
+  let result = text;
+  for (const pattern of SECRET_PATTERNS) {
+    result = result.replace(pattern, (_match, prefix: unknown) =>
+      typeof prefix === "string" ? `${prefix}${REDACTED}` : REDACTED
+    );
+  }
+  for (const pattern of extra) {
+    result = result.replace(pattern, REDACTED);
+  }
+  return result;
+}
+
+// Redaction is on unless a request opts out with `?redact=off`.
+export const redactionEnabled = (params: URLSearchParams) => params.get("redact") !== "off";
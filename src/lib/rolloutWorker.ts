@@ -0,0 +1,11 @@
+import { parentPort } from "worker_threads";
+import { runRolloutTask, type RolloutTask } from "./codex";
+
+parentPort?.on("message", async ({ id, task }: { id: number; task: RolloutTask }) => {
+  try {
+    const result = await runRolloutTask(task);
+    parentPort?.postMessage({ id, result });
+  } catch (error) {
+    parentPort?.postMessage({ id, error: error instanceof Error ? error.message : String(error) });
+  }
+});
@@ -0,0 +1,236 @@
+import {
+  getSessionDetail,
+  getSessionSummaries,
+  redactSessionText,
+  sessionFingerprint,
+  type SessionSummary,
+} from "./codex";
+import { redactionPatterns } from "./viewerConfig";
+
+export type SearchRole = "user" | "assistant" | "reasoning" | "tool";
+
+export const SEARCH_ROLES: SearchRole[] = ["user", "assistant", "reasoning", "tool"];
+
+export type SearchQuery = {
+  q: string;
+  projectId?: string;
+  from?: string;
+  to?: string;
+  roles?: SearchRole[];
+  limit?: number;
+};
+
+export type SearchHit = {
+  sessionId: string;
+  projectId: string;
+  projectName: string;
+  sessionPreview: string;
+  role: SearchRole;
+  messageId?: string;
+  toolCallId?: string;
+  toolName?: string;
+  timestamp: string;
+  snippet: string;
+  score: number;
+};
+
+export type SearchResults = {
+  hits: SearchHit[];
+  total: number;
+  indexedSessions: number;
+};
+
+type SearchDocument = {
+  sessionId: string;
+  role: SearchRole;
+  messageId?: string;
+  toolCallId?: string;
+  toolName?: string;
+  timestamp: string;
+  text: string;
+  lowered: string;
+};
+
+// Tool output can be megabytes of logs; only the head is worth indexing.
+const MAX_DOCUMENT_CHARS = 20_000;
+const REDACTION_SLACK_CHARS = 512;
+const SNIPPET_RADIUS = 90;
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+const documents = new Map<number, SearchDocument>();
+const postings = new Map<string, Set<number>>();
+const indexedSessions = new Map<string, { fingerprint: string; docIds: number[] }>();
+let nextDocumentId = 0;
+let indexedPatterns: string | null = null;
+let refreshing: Promise<Map<string, SessionSummary>> | null = null;
+
+const tokenize = (text: string) => text.toLowerCase().split(/[^\p{L}\p{N}_]+/u).filter((token) => token.length > 1);
+
+function removeSession(sessionId: string) {
+  const entry = indexedSessions.get(sessionId);
+  if (!entry) return;
+  for (const docId of entry.docIds) {
+    const document = documents.get(docId);
+    documents.delete(docId);
+    if (!document) continue;
+    for (const token of new Set(tokenize(document.text))) {
+      const ids = postings.get(token);
+      ids?.delete(docId);
+      if (ids && !ids.size) postings.delete(token);
+    }
+  }
+  indexedSessions.delete(sessionId);
+}
+
+// Text is masked before it is indexed, so neither snippets nor matches on part
+// of a secret give it away. Only the indexed head is masked, with some slack so
+// a secret straddling the cut is still caught whole.
+function addDocument(document: Omit<SearchDocument, "lowered">): number | null {
+  const head = document.text.trim().slice(0, MAX_DOCUMENT_CHARS + REDACTION_SLACK_CHARS);
+  const text = redactSessionText(head).slice(0, MAX_DOCUMENT_CHARS).trim();
+  if (!text) return null;
+  const docId = nextDocumentId;
+  nextDocumentId += 1;
+  documents.set(docId, { ...document, text, lowered: text.toLowerCase() });
+  for (const token of new Set(tokenize(text))) {
+    const ids = postings.get(token) ?? new Set<number>();
+    ids.add(docId);
+    postings.set(token, ids);
+  }
+  return docId;
+}
+
+async function indexSession(summary: SessionSummary) {
+  const detail = await getSessionDetail(summary.id);
+  removeSession(summary.id);
+  if (!detail) return;
+  const docIds: number[] = [];
+  for (const message of detail.messages) {
+    if (message.role === "status") continue;
+    const role: SearchRole = message.kind === "reasoning" ? "reasoning" : message.role === "user" ? "user" : "assistant";
+    const docId = addDocument({ sessionId: summary.id, role, messageId: message.id, timestamp: message.timestamp, text: message.text });
+    if (docId !== null) docIds.push(docId);
+  }
+  for (const call of detail.toolCalls) {
+    const text = [call.name, call.input, call.output].filter(Boolean).join("\n");
+    const docId = addDocument({
+      sessionId: summary.id,
+      role: "tool",
+      toolCallId: call.id,
+      toolName: call.name,
+      timestamp: call.startedAt ?? call.completedAt ?? summary.startedAt,
+      text,
+    });
+    if (docId !== null) docIds.push(docId);
+  }
+  indexedSessions.set(summary.id, { fingerprint: sessionFingerprint(summary), docIds });
+}
+
+// Brings the index in line with the current session list: changed sessions
+// are re-read whole, vanished ones dropped. Concurrent searches share a pass.
+function refreshIndex(): Promise<Map<string, SessionSummary>> {
+  refreshing ??= (async () => {
+    try {
+      const summaries = await getSessionSummaries();
+      // New redaction patterns apply to text already indexed too.
+      const patterns = redactionPatterns().map(String).join("\n");
+      if (patterns !== indexedPatterns) {
+        Array.from(indexedSessions.keys()).forEach(removeSession);
+        indexedPatterns = patterns;
+      }
+      const byId = new Map(summaries.map((summary) => [summary.id, summary]));
+      for (const sessionId of Array.from(indexedSessions.keys())) {
+        if (!byId.has(sessionId)) removeSession(sessionId);
+      }
+      for (const summary of summaries) {
+        if (indexedSessions.get(summary.id)?.fingerprint === sessionFingerprint(summary)) continue;
+        try {
+          await indexSession(summary);
+        } catch (error) {
+          console.error(`Failed to index session ${summary.id}`, error);
+        }
+      }
+      return byId;
+    } finally {
+      refreshing = null;
+    }
+  })();
+  return refreshing;
+}
+
+// Quoted parts must appear verbatim; everything else is matched word by word.
+function parseQuery(q: string) {
+  const phrases: string[] = [];
+  const rest = q.replace(/"([^"]+)"/g, (_, phrase: string) => {
+    if (phrase.trim()) phrases.push(phrase.trim().toLowerCase());
+    return " ";
+  });
+  const terms = Array.from(new Set([...tokenize(rest), ...phrases.flatMap(tokenize)]));
+  return { phrases, terms };
+}
+
+const countOccurrences = (haystack: string, needle: string) => {
+  let count = 0;
+  for (let index = haystack.indexOf(needle); index !== -1; index = haystack.indexOf(needle, index + needle.length)) {
+    count += 1;
+  }
+  return count;
+};
+
+function buildSnippet(document: SearchDocument, needles: string[]) {
+  const positions = needles.map((needle) => document.lowered.indexOf(needle)).filter((index) => index >= 0);
+  const at = positions.length ? Math.min(...positions) : 0;
+  const start = Math.max(0, at - SNIPPET_RADIUS);
+  const end = Math.min(document.text.length, at + SNIPPET_RADIUS * 2);
+  const body = document.text.slice(start, end).replace(/\s+/g, " ").trim();
+  return `${start > 0 ? "…" : ""}${body}${end < document.text.length ? "…" : ""}`;
+}
+
+export async function searchSessions(query: SearchQuery): Promise<SearchResults> {
+  const summaries = await refreshIndex();
+  const { phrases, terms } = parseQuery(query.q);
+  const limit = Math.min(Math.max(1, query.limit ?? DEFAULT_LIMIT), MAX_LIMIT);
+  if (!terms.length) return { hits: [], total: 0, indexedSessions: indexedSessions.size };
+
+  // Intersect from the rarest term so the candidate set shrinks fastest.
+  const lists = terms.map((term) => postings.get(term) ?? new Set<number>()).sort((a, b) => a.size - b.size);
+  let candidates = Array.from(lists[0]);
+  for (const list of lists.slice(1)) candidates = candidates.filter((docId) => list.has(docId));
+
+  const roles = query.roles?.length ? new Set(query.roles) : null;
+  const fromMs = query.from ? new Date(query.from).getTime() : Number.NaN;
+  const toMs = query.to ? new Date(query.to).getTime() : Number.NaN;
+  const hits: SearchHit[] = [];
+  for (const docId of candidates) {
+    const document = documents.get(docId);
+    const summary = document && summaries.get(document.sessionId);
+    if (!document || !summary) continue;
+    if (roles && !roles.has(document.role)) continue;
+    if (query.projectId && summary.projectId !== query.projectId) continue;
+    const ms = new Date(document.timestamp).getTime();
+    if (!Number.isNaN(fromMs) && ms < fromMs) continue;
+    if (!Number.isNaN(toMs) && ms > toMs) continue;
+    if (!phrases.every((phrase) => document.lowered.includes(phrase))) continue;
+
+    const score =
+      phrases.reduce((total, phrase) => total + countOccurrences(document.lowered, phrase) * 3, 0) +
+      terms.reduce((total, term) => total + countOccurrences(document.lowered, term), 0);
+    hits.push({
+      sessionId: document.sessionId,
+      projectId: summary.projectId,
+      projectName: summary.projectName,
+      sessionPreview: summary.preview,
+      role: document.role,
+      messageId: document.messageId,
+      toolCallId: document.toolCallId,
+      toolName: document.toolName,
+      timestamp: document.timestamp,
+      snippet: buildSnippet(document, [...phrases, ...terms]),
+      score,
+    });
+  }
+
+  hits.sort((a, b) => b.score - a.score || (a.timestamp < b.timestamp ? 1 : -1));
+  return { hits: hits.slice(0, limit), total: hits.length, indexedSessions: indexedSessions.size };
+}
@@ -0,0 +1,54 @@
+import {
+  getSessionDetail,
+  getSessionSummaries,
+  getSessionsForProject,
+  sessionFingerprint,
+  type FileActivity,
+  type SessionFilter,
+  type SessionSummary,
+  type ShellCommand,
+} from "./codex";
+
+export type SessionActivity = {
+  fileActivity: FileActivity[];
+  shellCommands: ShellCommand[];
+};
+
+// The Files and Commands tabs read the same sessions, so one parse of a
+// rollout feeds both until it changes.
+const activityCache = new Map<string, SessionActivity & { fingerprint: string }>();
+
+async function sessionActivity(summary: SessionSummary): Promise<SessionActivity> {
+  const fingerprint = sessionFingerprint(summary);
+  const cached = activityCache.get(summary.id);
+  if (cached?.fingerprint === fingerprint) return cached;
+  const detail = await getSessionDetail(summary.id);
+  const entry = { fingerprint, fileActivity: detail?.fileActivity ?? [], shellCommands: detail?.shellCommands ?? [] };
+  activityCache.set(summary.id, entry);
+  return entry;
+}
+
+async function pruneActivityCache() {
+  const live = new Set((await getSessionSummaries({ includeHidden: true })).map((summary) => summary.id));
+  for (const sessionId of Array.from(activityCache.keys())) {
+    if (!live.has(sessionId)) activityCache.delete(sessionId);
+  }
+}
+
+// Sessions whose log cannot be read are logged and left out.
+export async function getProjectSessionActivity(
+  projectId: string,
+  options?: SessionFilter
+): Promise<{ session: SessionSummary; activity: SessionActivity }[]> {
+  await pruneActivityCache();
+  const sessions = await getSessionsForProject(projectId, options);
+  const results: { session: SessionSummary; activity: SessionActivity }[] = [];
+  for (const session of sessions) {
+    try {
+      results.push({ session, activity: await sessionActivity(session) });
+    } catch (error) {
+      console.error(`Failed to read activity for ${session.id}`, error);
+    }
+  }
+  return results;
+}
@@ -0,0 +1,289 @@
+import { redactSessionDetail, type ChatMessage, type SessionDetail, type TokenTimelinePoint, type ToolCall } from "./codex";
+import { formatCost, formatPreciseDuration, formatToolOutcome, isFailedToolCall } from "./formatters";
+
+export type ExportFormat = "md" | "html" | "json";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["md", "html", "json"];
+
+export type SessionExport = {
+  body: string;
+  contentType: string;
+  filename: string;
+};
+
+type TranscriptEntry =
+  | { type: "message"; timestamp: string; message: ChatMessage }
+  | { type: "tool"; timestamp: string; call: ToolCall };
+
+// Tool output can run to megabytes of logs; a transcript only needs the gist.
+const MAX_TOOL_TEXT_CHARS = 20_000;
+
+// Same colours as the token chart in the session view.
+const SERIES = [
+  { key: "cachedTokens", label: "Reused (cached)", color: "#818cf8" },
+  { key: "userTokens", label: "User", color: "#22d3ee" },
+  { key: "outputTokens", label: "Output", color: "#f472b6" },
+  { key: "reasoningTokens", label: "Reasoning", color: "#facc15" },
+] as const;
+
+const formatUtc = (value?: string) => {
+  if (!value) return "–";
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : `${date.toISOString().slice(0, 19).replace("T", " ")} UTC`;
+};
+
+const clip = (text: string) =>
+  text.length > MAX_TOOL_TEXT_CHARS
+    ? `${text.slice(0, MAX_TOOL_TEXT_CHARS)}\n… ${(text.length - MAX_TOOL_TEXT_CHARS).toLocaleString()} more characters`
+    : text;
+
+// Tool input is usually JSON; pretty-printing it makes exports readable.
+const formatToolInput = (input?: string) => {
+  if (!input) return "";
+  try {
+    return JSON.stringify(JSON.parse(input), null, 2);
+  } catch {
+    return input;
+  }
+};
+
+function transcript(detail: SessionDetail): TranscriptEntry[] {
+  const entries: TranscriptEntry[] = [
+    ...detail.messages
+      .filter((message) => message.kind !== "status" && message.text.trim())
+      .map((message) => ({ type: "message" as const, timestamp: message.timestamp, message })),
+    ...detail.toolCalls.map((call) => ({
+      type: "tool" as const,
+      timestamp: call.startedAt ?? call.completedAt ?? detail.summary.lastActivityAt,
+      call,
+    })),
+  ];
+  return entries.sort((a, b) => (a.timestamp < b.timestamp ? -1 : a.timestamp > b.timestamp ? 1 : 0));
+}
+
+const messageHeading = (message: ChatMessage) =>
+  message.kind === "reasoning" ? "Reasoning summary" : message.role === "user" ? "User" : message.role === "system" ? "System" : "Assistant";
+
+function summaryRows(detail: SessionDetail): [string, string][] {
+  const { summary } = detail;
+  return [
+    ["Project", summary.projectSubdirectory ? `${summary.projectName} / ${summary.projectSubdirectory}` : summary.projectName],
+    ["Session", summary.id],
+    ["Agent", `${summary.agent} · ${summary.source}`],
+    ["Model", [summary.config.model, summary.config.reasoningEffort].filter(Boolean).join(" · ") || "–"],
+    ["Started", formatUtc(summary.startedAt)],
+    ["Last activity", formatUtc(summary.lastActivityAt)],
+    ["Tool calls", summary.toolCallCount.toLocaleString()],
+  ];
+}
+
+function tokenRows(detail: SessionDetail): [string, string][] {
+  const { summary } = detail;
+  return [
+    ["Model tokens", summary.totalTokens.toLocaleString()],
+    ["Billed tokens", summary.billedTokens.toLocaleString()],
+    ["Reused (cached)", summary.cachedTokens.toLocaleString()],
+    ["User", summary.userTokens.toLocaleString()],
+    ["Output", summary.outputTokens.toLocaleString()],
+    ["Reasoning", summary.reasoningTokens.toLocaleString()],
+    ["Context window", summary.contextWindow ? summary.contextWindow.toLocaleString() : "–"],
+    ["Cost", formatCost(summary.cost)],
+  ];
+}
+
+// A fence longer than any backtick run inside, so code blocks cannot break out.
+const fence = (text: string, language = "") => {
+  const longest = Math.max(2, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  const marker = "`".repeat(longest + 1);
+  return `${marker}${language}\n${text}\n${marker}`;
+};
+
+export function renderMarkdown(detail: SessionDetail): string {
+  const lines: string[] = [`# ${detail.summary.preview || "Session"}`, ""];
+  for (const [label, value] of summaryRows(detail)) lines.push(`- **${label}:** ${value}`);
+  lines.push("", "## Token usage", "", "| | Tokens |", "| --- | ---: |");
+  for (const [label, value] of tokenRows(detail)) lines.push(`| ${label} | ${value} |`);
+  lines.push("", "## Transcript", "");
+
+  for (const entry of transcript(detail)) {
+    if (entry.type === "message") {
+      const { message } = entry;
+      lines.push(`### ${messageHeading(message)} · ${formatUtc(message.timestamp)}`, "");
+      lines.push(message.kind === "reasoning" ? message.text.replace(/^/gm, "> ") : message.text, "");
+      continue;
+    }
+    const { call } = entry;
+    lines.push(
+      `### Tool · ${call.name} · ${formatToolOutcome(call)} · ${formatPreciseDuration(call.durationMs)}`,
+      "",
+      `_${formatUtc(entry.timestamp)}_`,
+      ""
+    );
+    const input = formatToolInput(call.input);
+    if (input) lines.push("**Input**", "", fence(clip(input), input.startsWith("{") ? "json" : ""), "");
+    if (call.output) lines.push("**Output**", "", fence(clip(call.output)), "");
+  }
+  return `${lines.join("\n").trimEnd()}\n`;
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+// Stacked areas of the cumulative token series, drawn once at export time so
+// the file needs no script to show it.
+export function renderTokenChartSvg(timeline: TokenTimelinePoint[], width = 960, height = 260): string {
+  const points = [...timeline].sort((a, b) => a.timestampMs - b.timestampMs);
+  if (points.length < 2) return "";
+  const pad = { left: 64, right: 16, top: 16, bottom: 28 };
+  const start = points[0].timestampMs;
+  const span = Math.max(1, points[points.length - 1].timestampMs - start);
+  const max = Math.max(1, ...points.map((point) => SERIES.reduce((total, series) => total + point[series.key], 0)));
+  const x = (ms: number) => pad.left + ((ms - start) / span) * (width - pad.left - pad.right);
+  const y = (value: number) => height - pad.bottom - (value / max) * (height - pad.top - pad.bottom);
+
+  const baseline = points.map(() => 0);
+  const areas = SERIES.map((series) => {
+    const lower = [...baseline];
+    points.forEach((point, index) => {
+      baseline[index] += point[series.key];
+    });
+    const top = points.map((point, index) => `${x(point.timestampMs).toFixed(1)},${y(baseline[index]).toFixed(1)}`);
+    const bottom = points
+      .map((point, index) => `${x(point.timestampMs).toFixed(1)},${y(lower[index]).toFixed(1)}`)
+      .reverse();
+    return `<polygon points="${[...top, ...bottom].join(" ")}" fill="${series.color}" fill-opacity="0.55" stroke="${series.color}" stroke-width="1"/>`;
+  });
+
+  const label = (ms: number) => new Date(ms).toISOString().slice(11, 19);
+  const legend = SERIES.map(
+    (series, index) =>
+      `<g transform="translate(${pad.left + index * 140},${height - 6})"><rect width="10" height="10" y="-9" fill="${series.color}"/><text x="14">${escapeHtml(series.label)}</text></g>`
+  );
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height + 18}" role="img" aria-label="Token usage over time">`,
+    `<g font-size="11" fill="#94a3b8" font-family="ui-sans-serif, system-ui">`,
+    `<line x1="${pad.left}" y1="${y(0)}" x2="${width - pad.right}" y2="${y(0)}" stroke="#334155"/>`,
+    `<line x1="${pad.left}" y1="${y(max)}" x2="${width - pad.right}" y2="${y(max)}" stroke="#1e293b" stroke-dasharray="4 4"/>`,
+    `<text x="${pad.left - 6}" y="${y(max) + 4}" text-anchor="end">${max.toLocaleString()}</text>`,
+    `<text x="${pad.left - 6}" y="${y(0) + 4}" text-anchor="end">0</text>`,
+    ...areas,
+    `<text x="${pad.left}" y="${height - pad.bottom + 14}">${label(start)}</text>`,
+    `<text x="${width - pad.right}" y="${height - pad.bottom + 14}" text-anchor="end">${label(start + span)} UTC</text>`,
+    `<g transform="translate(0,18)">${legend.join("")}</g>`,
+    `</g></svg>`,
+  ].join("\n");
+}
+
+const HTML_STYLES = `
+body { margin: 0; background: #020617; color: #e2e8f0; font: 14px/1.6 ui-sans-serif, system-ui, sans-serif; }
+main { max-width: 960px; margin: 0 auto; padding: 48px 24px; }
+h1 { font-size: 28px; line-height: 1.3; color: #fff; margin: 0 0 16px; }
+h2 { font-size: 13px; letter-spacing: 0.3em; text-transform: uppercase; color: #64748b; margin: 40px 0 12px; }
+table { border-collapse: collapse; width: 100%; }
+td { padding: 4px 12px 4px 0; border-top: 1px solid rgba(255,255,255,0.05); }
+td:first-child { color: #94a3b8; width: 180px; }
+.card { border: 1px solid rgba(255,255,255,0.08); background: rgba(255,255,255,0.03); border-radius: 18px; padding: 14px 18px; margin: 12px 0; }
+.meta { font-size: 12px; color: #94a3b8; letter-spacing: 0.08em; text-transform: uppercase; }
+.user { border-color: rgba(253,164,175,0.35); }
+.reasoning { color: #cbd5e1; font-style: italic; }
+.failed { border-color: rgba(244,63,94,0.5); }
+.failed .meta { color: #fda4af; }
+.text { white-space: pre-wrap; margin-top: 6px; }
+pre { background: rgba(0,0,0,0.45); border-radius: 12px; padding: 10px 12px; overflow-x: auto; white-space: pre-wrap; word-break: break-word; font-size: 12px; }
+summary { cursor: pointer; }
+svg { width: 100%; height: auto; }
+`;
+
+export function renderHtml(detail: SessionDetail): string {
+  const title = escapeHtml(detail.summary.preview || "Session");
+  const rows = (items: [string, string][]) =>
+    `<table>${items.map(([label, value]) => `<tr><td>${escapeHtml(label)}</td><td>${escapeHtml(value)}</td></tr>`).join("")}</table>`;
+
+  const body = transcript(detail).map((entry) => {
+    if (entry.type === "message") {
+      const { message } = entry;
+      const kind = message.kind === "reasoning" ? "reasoning" : message.role === "user" ? "user" : "assistant";
+      return `<div class="card ${kind}"><div class="meta">${escapeHtml(messageHeading(message))} · ${escapeHtml(formatUtc(message.timestamp))}</div><div class="text">${escapeHtml(message.text)}</div></div>`;
+    }
+    const { call } = entry;
+    const failed = isFailedToolCall(call);
+    const input = formatToolInput(call.input);
+    return [
+      `<details class="card${failed ? " failed" : ""}">`,
+      `<summary class="meta">Tool · ${escapeHtml(call.name)} · ${escapeHtml(formatToolOutcome(call))} · ${escapeHtml(formatPreciseDuration(call.durationMs))} · ${escapeHtml(formatUtc(entry.timestamp))}</summary>`,
+      input ? `<p class="meta">Input</p><pre>${escapeHtml(clip(input))}</pre>` : "",
+      call.output ? `<p class="meta">Output</p><pre>${escapeHtml(clip(call.output))}</pre>` : "",
+      `</details>`,
+    ].join("\n");
+  });
+
+  const chart = renderTokenChartSvg(detail.tokenTimeline);
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${title}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<main>
+<h1>${title}</h1>
+${rows(summaryRows(detail))}
+<h2>Token usage</h2>
+${rows(tokenRows(detail))}
+${chart ? `<div class="card">${chart}</div>` : ""}
+<h2>Transcript</h2>
+${body.join("\n")}
+</main>
+</body>
+</html>
+`;
+}
+
+export function renderSessionExport(detail: SessionDetail, format: ExportFormat): SessionExport {
+  const base = `session-${detail.summary.id}`;
+  if (format === "md") {
+    return { body: renderMarkdown(detail), contentType: "text/markdown; charset=utf-8", filename: `${base}.md` };
+  }
+  if (format === "html") {
+    return { body: renderHtml(detail), contentType: "text/html; charset=utf-8", filename: `${base}.html` };
+  }
+  return {
+    body: JSON.stringify(detail, null, 2),
+    contentType: "application/json; charset=utf-8",
+    filename: `${base}.json`,
+  };
+}
+
+// The body of an export route: validates `format`, loads the session and sends
+// it as a download. Exports leave the machine, so they are redacted whatever
+// the request asks.
+export async function exportSessionResponse(options: {
+  format: string | null;
+  load: () => Promise<SessionDetail | null>;
+  notFound: string;
+  route: string;
+}): Promise<Response> {
+  const format = (options.format ?? "md") as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    return Response.json({ error: `Unknown format, expected one of ${EXPORT_FORMATS.join(", ")}` }, { status: 400 });
+  }
+
+  try {
+    const session = await options.load();
+    if (!session) {
+      return Response.json({ error: options.notFound }, { status: 404 });
+    }
+    const file = renderSessionExport(redactSessionDetail(session), format);
+    return new Response(file.body, {
+      headers: {
+        "Content-Type": file.contentType,
+        "Content-Disposition": `attachment; filename="${file.filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error(`${options.route} error`, error);
+    return Response.json({ error: "Failed to export session" }, { status: 500 });
+  }
+}
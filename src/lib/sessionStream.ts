@@ -0,0 +1,40 @@
+import type { SessionDetail, SessionDetailUpdate, ToolCall } from "./codex";
+import { extractFileActivity } from "./fileActivity";
+import { buildFileChanges } from "./patches";
+import { parseShellCommands } from "./shell";
+import { extendTurns } from "./turns";
+
+const byStartedAt = (a: ToolCall, b: ToolCall) =>
+  a.startedAt && b.startedAt ? (a.startedAt > b.startedAt ? 1 : -1) : 0;
+
+export function mergeSessionUpdate(
+  detail: SessionDetail,
+  update: SessionDetailUpdate
+): SessionDetail | null {
+  if (update.cursor <= detail.cursor) return detail;
+  if (update.from !== detail.cursor) return null;
+
+  const toolCalls = new Map(detail.toolCalls.map((call) => [call.id, call]));
+  for (const call of update.toolCalls) {
+    toolCalls.set(call.id, call);
+  }
+  const mergedCalls = Array.from(toolCalls.values()).sort(byStartedAt);
+
+  return {
+    summary: update.summary,
+    messages: [...detail.messages, ...update.messages].sort((a, b) => (a.timestamp > b.timestamp ? 1 : -1)),
+    tokenTimeline: [...detail.tokenTimeline, ...update.tokenTimeline].sort((a, b) => a.timestampMs - b.timestampMs),
+    toolCalls: mergedCalls,
+    fileChanges: buildFileChanges(mergedCalls),
+    fileActivity: extractFileActivity(mergedCalls, update.summary.cwd),
+    shellCommands: parseShellCommands(mergedCalls),
+    configHistory: [...detail.configHistory, ...update.configHistory],
+    turns: extendTurns(detail.turns, {
+      messages: update.messages,
+      toolCalls: update.toolCalls,
+      tokenTimeline: update.tokenTimeline,
+      markers: update.turnMarkers,
+    }),
+    cursor: update.cursor,
+  };
+}
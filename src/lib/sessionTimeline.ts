@@ -0,0 +1,319 @@
+import type { FileActivity, SessionDetail, TokenDelta } from "./codex";
+import { formatToolOutcome, isFailedToolCall } from "./formatters";
+import { pointDelta } from "./tokens";
+
+// The session detail timeline: tool calls, file activity and messages, each
+// credited with the token delta of the usage point nearest to it.
+
+export type ContextRange = { before: number; after: number };
+
+export type TelemetryEvent = {
+  id: string;
+  timestamp: string;
+  timestampMs: number;
+  kind: "tool" | "file" | "user" | "agent";
+  title: string;
+  subtitle?: string;
+  deltaTokens?: TokenDelta | null;
+  contextRange?: ContextRange | null;
+  snippet?: string | null;
+  failed?: boolean;
+};
+
+export type ToolCallInsight = {
+  anchorTimestamp: number | null;
+  eventTimestamp: number | null;
+  deltaTokens: TokenDelta | null;
+};
+
+export type ToolTokenStat = {
+  name: string;
+  calls: number;
+  totalTokens: number;
+  userTokens: number;
+  cachedTokens: number;
+  outputTokens: number;
+  reasoningTokens: number;
+  finished: number;
+  failed: number;
+  durationMs: number;
+  timedCalls: number;
+};
+
+const truncate = (value: string, max = 320) => (value.length > max ? `${value.slice(0, max)}...` : value);
+
+export const getCallTimestamp = (call: SessionDetail["toolCalls"][number]) => {
+  const candidates = [call.completedAt, call.startedAt];
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    const ms = new Date(candidate).getTime();
+    if (!Number.isNaN(ms)) return ms;
+  }
+  return null;
+};
+
+const summarizeCall = (call: SessionDetail["toolCalls"][number]) => {
+  const raw = typeof call.output === "string" && call.output.trim().length
+    ? call.output
+    : typeof call.input === "string"
+      ? call.input
+      : null;
+  if (!raw) return null;
+  return truncate(raw, 200);
+};
+
+const deriveDeltaFromPoints = (
+  current: SessionDetail["tokenTimeline"][number],
+  previous?: SessionDetail["tokenTimeline"][number]
+): TokenDelta | null => (current.delta || previous ? pointDelta(current, previous) : null);
+
+// Anchors each tool call to the first token_count at or after it.
+export const buildToolInsights = (
+  toolCalls: SessionDetail["toolCalls"],
+  timeline: SessionDetail["tokenTimeline"]
+) => {
+  if (!timeline.length) {
+    const emptyInsights = toolCalls.reduce((acc, call) => {
+      acc[call.id] = {
+        anchorTimestamp: null,
+        eventTimestamp: getCallTimestamp(call),
+        deltaTokens: null,
+      };
+      return acc;
+    }, {} as Record<string, ToolCallInsight>);
+    return { toolInsights: emptyInsights, deltaLookup: new Map<number, TokenDelta | null>() };
+  }
+
+  const deltaByTimestamp = new Map<number, TokenDelta | null>();
+  for (let i = 0; i < timeline.length; i += 1) {
+    const current = timeline[i];
+    const previous = i > 0 ? timeline[i - 1] : undefined;
+    deltaByTimestamp.set(current.timestampMs, deriveDeltaFromPoints(current, previous));
+  }
+
+  const fallbackAnchor = timeline[timeline.length - 1]?.timestampMs ?? null;
+  const insights = toolCalls.reduce((acc, call) => {
+    const eventTimestamp = getCallTimestamp(call);
+    const anchorPoint =
+      eventTimestamp !== null
+        ? timeline.find((point) => point.timestampMs >= eventTimestamp) ?? timeline[timeline.length - 1]
+        : timeline[timeline.length - 1];
+    acc[call.id] = {
+      anchorTimestamp: anchorPoint?.timestampMs ?? fallbackAnchor,
+      eventTimestamp,
+      deltaTokens: anchorPoint ? deltaByTimestamp.get(anchorPoint.timestampMs) ?? null : null,
+    };
+    return acc;
+  }, {} as Record<string, ToolCallInsight>);
+
+  return { toolInsights: insights, deltaLookup: deltaByTimestamp };
+};
+
+export const buildToolTokenStats = (toolCalls: SessionDetail["toolCalls"], events: TelemetryEvent[]) => {
+  const map = new Map<string, ToolTokenStat>();
+  const statFor = (name: string) => {
+    const current =
+      map.get(name) ?? {
+        name,
+        calls: 0,
+        totalTokens: 0,
+        userTokens: 0,
+        cachedTokens: 0,
+        outputTokens: 0,
+        reasoningTokens: 0,
+        finished: 0,
+        failed: 0,
+        durationMs: 0,
+        timedCalls: 0,
+      };
+    map.set(name, current);
+    return current;
+  };
+  for (const call of toolCalls) {
+    const current = statFor(call.name || "Tool");
+    current.calls += 1;
+    if (call.outcome) current.finished += 1;
+    if (isFailedToolCall(call)) current.failed += 1;
+    if (call.durationMs !== undefined && call.durationMs >= 0) {
+      current.durationMs += call.durationMs;
+      current.timedCalls += 1;
+    }
+  }
+  for (const event of events) {
+    if (event.kind !== "tool" || !event.deltaTokens) continue;
+    const current = statFor(event.title || "Tool");
+    current.totalTokens += event.deltaTokens.totalTokens ?? 0;
+    current.userTokens += event.deltaTokens.userTokens ?? 0;
+    current.cachedTokens += event.deltaTokens.cachedTokens ?? 0;
+    current.outputTokens += event.deltaTokens.outputTokens ?? 0;
+    current.reasoningTokens += event.deltaTokens.reasoningTokens ?? 0;
+  }
+  return Array.from(map.values()).sort((a, b) => b.totalTokens - a.totalTokens || b.calls - a.calls);
+};
+
+// The same per-tool numbers the Tool usage table shows, for a whole session.
+export const summarizeToolUsage = (detail: SessionDetail): ToolTokenStat[] => {
+  const timeline = [...detail.tokenTimeline].sort((a, b) => a.timestampMs - b.timestampMs);
+  const { toolInsights, deltaLookup } = buildToolInsights(detail.toolCalls, timeline);
+  return buildToolTokenStats(detail.toolCalls, buildTimelineEvents(detail, toolInsights, deltaLookup, timeline));
+};
+
+export const buildTimelineEvents = (
+  detail: SessionDetail,
+  toolInsights: Record<string, ToolCallInsight>,
+  deltaLookup: Map<number, TokenDelta | null>,
+  timeline: SessionDetail["tokenTimeline"]
+): TelemetryEvent[] => {
+  const fallbackTimelinePoint = timeline[timeline.length - 1];
+  const summaryFallback = new Date(detail.summary.lastActivityAt).getTime();
+  const safeFallbackTimestamp = Number.isNaN(summaryFallback)
+    ? Date.now()
+    : summaryFallback;
+  const consumedAnchors = new Set<number>();
+
+  const registerDelta = (
+    delta: TokenDelta | null,
+    anchorPoint: SessionDetail["tokenTimeline"][number] | null
+  ) => {
+    if (!delta) return { delta: null, range: null } as const;
+    const anchorTimestamp = anchorPoint?.timestampMs ?? null;
+    if (anchorTimestamp && consumedAnchors.has(anchorTimestamp)) {
+      return { delta: null, range: null } as const;
+    }
+    if (anchorTimestamp) consumedAnchors.add(anchorTimestamp);
+    const after = anchorPoint?.totalTokens ?? null;
+    const before = after !== null ? after - delta.totalTokens : null;
+    return {
+      delta,
+      range: before !== null && after !== null ? { before, after } : null,
+    } as const;
+  };
+
+  const toolEvents: TelemetryEvent[] = detail.toolCalls.map((call) => {
+    const insight = toolInsights[call.id];
+    const rawTimestamp =
+      insight?.eventTimestamp ??
+      getCallTimestamp(call) ??
+      fallbackTimelinePoint?.timestampMs ??
+      safeFallbackTimestamp;
+    const timestampMs = Number.isNaN(rawTimestamp) ? safeFallbackTimestamp : rawTimestamp;
+    const resolvedAnchorTimestamp = insight?.anchorTimestamp ?? null;
+    const resolvedAnchorPoint = resolvedAnchorTimestamp
+      ? timeline.find((point) => point.timestampMs === resolvedAnchorTimestamp)
+      : null;
+    const fallbackDeltaInfo = estimateDeltaForTimestamp(timestampMs, timeline, deltaLookup);
+    const registered = registerDelta(
+      insight?.deltaTokens ?? fallbackDeltaInfo.delta,
+      resolvedAnchorPoint ?? fallbackDeltaInfo.anchorPoint
+    );
+    return {
+      id: `tool-${call.id}`,
+      timestamp: new Date(timestampMs).toISOString(),
+      timestampMs,
+      kind: "tool",
+      title: call.name,
+      subtitle: `${call.toolKind} · ${formatToolOutcome(call)}`,
+      deltaTokens: registered.delta,
+      contextRange: registered.range,
+      snippet: summarizeCall(call),
+      failed: isFailedToolCall(call),
+    } satisfies TelemetryEvent;
+  });
+
+  const fileEvents = detail.fileActivity
+    .map((activity) => buildFileEvent(activity))
+    .filter((event): event is TelemetryEvent => Boolean(event));
+
+  const conversationEvents = detail.messages
+    .map((message) => buildConversationEvent(message, timeline, deltaLookup, registerDelta))
+    .filter((event): event is TelemetryEvent => Boolean(event));
+
+  return [...toolEvents, ...fileEvents, ...conversationEvents].sort((a, b) => a.timestampMs - b.timestampMs);
+};
+
+const FILE_ACTION_LABELS: Record<FileActivity["action"], string> = {
+  read: "Read",
+  write: "Wrote",
+  delete: "Deleted",
+};
+
+const buildFileEvent = (activity: FileActivity): TelemetryEvent | null => {
+  if (!activity.timestamp) return null;
+  const timestampMs = new Date(activity.timestamp).getTime();
+  if (Number.isNaN(timestampMs)) return null;
+  return {
+    id: `file-${activity.id}`,
+    timestamp: activity.timestamp,
+    timestampMs,
+    kind: "file",
+    title: activity.path,
+    subtitle: `${FILE_ACTION_LABELS[activity.action]} · ${activity.tool}`,
+    snippet: activity.command ? truncate(activity.command, 200) : null,
+  } satisfies TelemetryEvent;
+};
+
+const buildConversationEvent = (
+  message: SessionDetail["messages"][number],
+  timeline: SessionDetail["tokenTimeline"],
+  deltaLookup: Map<number, TokenDelta | null>,
+  registerDelta: (
+    delta: TokenDelta | null,
+    anchorPoint: SessionDetail["tokenTimeline"][number] | null
+  ) => { delta: TokenDelta | null; range: ContextRange | null }
+): TelemetryEvent | null => {
+  if (message.kind !== "text") return null;
+  if (message.role !== "user" && message.role !== "assistant") return null;
+  const timestampMs = new Date(message.timestamp).getTime();
+  if (Number.isNaN(timestampMs)) return null;
+  const kind = message.role === "user" ? ("user" as const) : ("agent" as const);
+  const title = extractHeadline(message.text);
+  const deltaInfo = estimateDeltaForTimestamp(timestampMs, timeline, deltaLookup);
+  const registered = registerDelta(deltaInfo.delta, deltaInfo.anchorPoint);
+  return {
+    id: `msg-${message.id}`,
+    timestamp: message.timestamp,
+    timestampMs,
+    kind,
+    title,
+    subtitle: kind === "user" ? "User input" : "Agent response",
+    snippet: message.text,
+    deltaTokens: registered.delta,
+    contextRange: registered.range,
+  } satisfies TelemetryEvent;
+};
+
+const extractHeadline = (text: string) => {
+  const firstLine = text.trim().split(/\n+/)[0] ?? "";
+  if (!firstLine) return "Conversation";
+  return truncate(firstLine, 120);
+};
+
+const estimateDeltaForTimestamp = (
+  timestampMs: number,
+  timeline: SessionDetail["tokenTimeline"],
+  deltaLookup: Map<number, TokenDelta | null>
+) => {
+  if (!timeline.length) {
+    return { delta: null, anchorPoint: null } as const;
+  }
+  let closestIndex = 0;
+  let minDiff = Number.POSITIVE_INFINITY;
+  for (let i = 0; i < timeline.length; i += 1) {
+    const diff = Math.abs(timeline[i].timestampMs - timestampMs);
+    if (diff < minDiff) {
+      minDiff = diff;
+      closestIndex = i;
+    }
+  }
+
+  const candidateIndices = [closestIndex, closestIndex - 1, closestIndex + 1, closestIndex + 2];
+  for (const index of candidateIndices) {
+    if (index < 0 || index >= timeline.length) continue;
+    const candidatePoint = timeline[index];
+    const delta = deltaLookup.get(candidatePoint.timestampMs);
+    if (delta) {
+      return { delta, anchorPoint: candidatePoint } as const;
+    }
+  }
+  return { delta: null, anchorPoint: null } as const;
+};
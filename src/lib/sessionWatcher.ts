@@ -0,0 +1,193 @@
+import path from "path";
+import { promises as fs, watch as fsWatch } from "fs";
+import type { FSWatcher } from "fs";
+import fg from "fast-glob";
+
+export type SessionFileEvent = {
+  type: "add" | "change" | "remove";
+  filePath: string;
+};
+
+export type WatchMode = "native" | "poll";
+
+export type SessionFileStat = { size: number; mtimeMs: number };
+
+export interface SessionWatcher {
+  mode: WatchMode;
+  ready: Promise<void>;
+  files: () => string[];
+  stat: (filePath: string) => SessionFileStat | undefined;
+  close: () => void;
+}
+
+interface WatchOptions {
+  extensions: string[];
+  mode?: WatchMode;
+  pollIntervalMs?: number;
+  onEvents: (events: SessionFileEvent[]) => void;
+}
+
+const NATIVE_DEBOUNCE_MS = 150;
+
+export function watchSessionFiles(root: string, options: WatchOptions): SessionWatcher {
+  const pollIntervalMs = options.pollIntervalMs ?? 3000;
+  const known = new Map<string, SessionFileStat>();
+  const dirMtimes = new Map<string, number>();
+  const patterns = options.extensions.map((extension) => `**/*${extension}`);
+  const matches = (filePath: string) => options.extensions.some((extension) => filePath.endsWith(extension));
+  let closed = false;
+  let nativeWatcher: FSWatcher | null = null;
+  let pollTimer: ReturnType<typeof setInterval> | null = null;
+  let flushTimer: ReturnType<typeof setTimeout> | null = null;
+  const pending = new Set<string>();
+
+  const emit = (events: SessionFileEvent[]) => {
+    if (events.length && !closed) options.onEvents(events);
+  };
+
+  const refreshFile = async (filePath: string): Promise<SessionFileEvent | null> => {
+    const stat = await fs.stat(filePath).catch(() => null);
+    const previous = known.get(filePath);
+    if (!stat || !stat.isFile()) {
+      if (!previous) return null;
+      known.delete(filePath);
+      return { type: "remove", filePath };
+    }
+    known.set(filePath, { size: stat.size, mtimeMs: stat.mtimeMs });
+    if (!previous) return { type: "add", filePath };
+    if (previous.size !== stat.size || previous.mtimeMs !== stat.mtimeMs) return { type: "change", filePath };
+    return null;
+  };
+
+  const flushPending = async () => {
+    flushTimer = null;
+    const paths = Array.from(pending);
+    pending.clear();
+    const events: SessionFileEvent[] = [];
+    for (const filePath of paths) {
+      if (known.has(filePath) || matches(filePath)) {
+        const event = await refreshFile(filePath);
+        if (event) events.push(event);
+        continue;
+      }
+      // A directory was created, moved or removed: reconcile everything under it.
+      const prefix = `${filePath}${path.sep}`;
+      for (const knownPath of Array.from(known.keys())) {
+        if (knownPath.startsWith(prefix)) {
+          const event = await refreshFile(knownPath);
+          if (event) events.push(event);
+        }
+      }
+      const nested = await fg(patterns, { cwd: filePath, absolute: true, suppressErrors: true }).catch(
+        () => [] as string[]
+      );
+      for (const nestedPath of nested) {
+        const event = await refreshFile(nestedPath);
+        if (event) events.push(event);
+      }
+    }
+    emit(events);
+  };
+
+  const scanDirectory = async (dir: string, events: SessionFileEvent[]) => {
+    const stat = await fs.stat(dir).catch(() => null);
+    if (!stat || !stat.isDirectory()) {
+      dirMtimes.delete(dir);
+      return;
+    }
+    const changed = dirMtimes.get(dir) !== stat.mtimeMs;
+    dirMtimes.set(dir, stat.mtimeMs);
+    const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+    for (const entry of entries) {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        await scanDirectory(entryPath, events);
+      } else if (changed && entry.isFile() && !known.has(entryPath) && matches(entryPath)) {
+        const event = await refreshFile(entryPath);
+        if (event) events.push(event);
+      }
+    }
+  };
+
+  const pollOnce = async () => {
+    const events: SessionFileEvent[] = [];
+    for (const filePath of Array.from(known.keys())) {
+      const event = await refreshFile(filePath);
+      if (event) events.push(event);
+    }
+    await scanDirectory(root, events);
+    emit(events);
+  };
+
+  let polling = false;
+  const startPolling = () => {
+    if (pollTimer || closed) return;
+    watcher.mode = "poll";
+    pollTimer = setInterval(() => {
+      if (polling) return;
+      polling = true;
+      pollOnce()
+        .catch((error) => console.error("session watcher poll failed", error))
+        .finally(() => {
+          polling = false;
+        });
+    }, pollIntervalMs);
+    pollTimer.unref?.();
+  };
+
+  const startNative = () => {
+    try {
+      nativeWatcher = fsWatch(root, { recursive: true, persistent: false }, (_eventType, filename) => {
+        if (!filename) return;
+        pending.add(path.join(root, filename.toString()));
+        if (!flushTimer) {
+          flushTimer = setTimeout(() => {
+            flushPending().catch((error) => console.error("session watcher update failed", error));
+          }, NATIVE_DEBOUNCE_MS);
+        }
+      });
+      nativeWatcher.on("error", (error) => {
+        console.error("session watcher failed, falling back to polling", error);
+        nativeWatcher?.close();
+        nativeWatcher = null;
+        startPolling();
+      });
+    } catch (error) {
+      console.error("native session watcher unavailable, falling back to polling", error);
+      startPolling();
+    }
+  };
+
+  const initialScan = async () => {
+    const entries = await fg(patterns, { cwd: root, absolute: true, suppressErrors: true, stats: true }).catch(
+      () => []
+    );
+    for (const entry of entries) {
+      if (entry.stats) {
+        known.set(entry.path, { size: entry.stats.size, mtimeMs: entry.stats.mtimeMs });
+      }
+    }
+    if (closed) return;
+    if (watcher.mode === "native") {
+      startNative();
+    } else {
+      await scanDirectory(root, []);
+      startPolling();
+    }
+  };
+
+  const watcher: SessionWatcher = {
+    mode: options.mode ?? "native",
+    ready: Promise.resolve(),
+    files: () => Array.from(known.keys()).sort(),
+    stat: (filePath) => known.get(filePath),
+    close: () => {
+      closed = true;
+      nativeWatcher?.close();
+      if (pollTimer) clearInterval(pollTimer);
+      if (flushTimer) clearTimeout(flushTimer);
+    },
+  };
+  watcher.ready = initialScan();
+  return watcher;
+}
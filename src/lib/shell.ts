@@ -0,0 +1,221 @@
+import { safeParse } from "./adapters/shared";
+import type { CommandGroup, CommandReport, ShellCommand, ToolCall } from "./codex";
+
+export type ShellInvocation = {
+  script: string;
+  workdir?: string;
+};
+
+export type SimpleCommand = {
+  args: string[];
+  redirects: { op: string; target: string }[];
+};
+
+type ShellArguments = {
+  command?: unknown;
+  cmd?: unknown;
+  workdir?: unknown;
+  timeout_ms?: unknown;
+  timeout?: unknown;
+};
+
+const SHELL_WRAPPERS = new Set(["bash", "sh", "zsh", "/bin/bash", "/bin/sh", "/bin/zsh"]);
+
+const quote = (arg: string) => (/^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`);
+
+// Codex passes `command` as an argv array (usually `bash -lc <script>`),
+// `exec_command` as a `cmd` string, and Claude's Bash tool as a `command`
+// string. Anything else is not a shell call.
+export function readShellInvocation(call: ToolCall): ShellInvocation | null {
+  if (!call.input) return null;
+  const parsed = safeParse<ShellArguments>(call.input);
+  if (!parsed || typeof parsed !== "object") return null;
+  const workdir = typeof parsed.workdir === "string" ? parsed.workdir : undefined;
+  const command = parsed.command ?? parsed.cmd;
+  if (typeof command === "string") return command.trim() ? { script: command, workdir } : null;
+  if (!Array.isArray(command) || !command.length || !command.every((arg) => typeof arg === "string")) return null;
+  const argv = command as string[];
+  if (SHELL_WRAPPERS.has(argv[0]) && (argv[1] === "-lc" || argv[1] === "-c") && argv.length === 3) {
+    return { script: argv[2], workdir };
+  }
+  return { script: argv.map(quote).join(" "), workdir };
+}
+
+// A small POSIX-ish word splitter: enough to find program names, arguments
+// and redirect targets. Control operators end a command, quotes and escapes
+// are resolved, comments and here-document bodies are skipped.
+export function parseShellScript(script: string): SimpleCommand[] {
+  const commands: SimpleCommand[] = [];
+  let current: SimpleCommand = { args: [], redirects: [] };
+  let word = "";
+  let inWord = false;
+  let redirect: string | null = null;
+  let heredocs: string[] = [];
+
+  const endWord = () => {
+    if (!inWord) return;
+    if (redirect?.startsWith("<<") && redirect !== "<<<") {
+      heredocs.push(word);
+    } else if (redirect) {
+      current.redirects.push({ op: redirect, target: word });
+    } else {
+      current.args.push(word);
+    }
+    redirect = null;
+    word = "";
+    inWord = false;
+  };
+  const endCommand = () => {
+    endWord();
+    if (current.args.length || current.redirects.length) commands.push(current);
+    current = { args: [], redirects: [] };
+  };
+
+  for (let index = 0; index < script.length; index += 1) {
+    const char = script[index];
+    if (char === "\\") {
+      if (script[index + 1] !== "\n") {
+        word += script[index + 1] ?? "";
+        inWord = true;
+      }
+      index += 1;
+    } else if (char === "'") {
+      const end = script.indexOf("'", index + 1);
+      word += script.slice(index + 1, end === -1 ? undefined : end);
+      inWord = true;
+      index = end === -1 ? script.length : end;
+    } else if (char === '"') {
+      inWord = true;
+      for (index += 1; index < script.length && script[index] !== '"'; index += 1) {
+        if (script[index] === "\\" && /["\\$`]/.test(script[index + 1] ?? "")) index += 1;
+        word += script[index];
+      }
+    } else if (char === "#" && !inWord) {
+      const end = script.indexOf("\n", index);
+      index = (end === -1 ? script.length : end) - 1;
+    } else if (char === "\n") {
+      endCommand();
+      for (const delimiter of heredocs) {
+        const lines = script.slice(index + 1).split("\n");
+        const bodyLength = lines.findIndex((line) => line.trim() === delimiter);
+        const skipped = bodyLength === -1 ? lines : lines.slice(0, bodyLength + 1);
+        index += skipped.reduce((total, line) => total + line.length + 1, 0);
+      }
+      heredocs = [];
+    } else if (char === ">" || char === "<" || (char === "&" && script[index + 1] === ">")) {
+      // A bare file-descriptor number belongs to the operator, not the command.
+      if (inWord && /^\d+$/.test(word)) {
+        word = "";
+        inWord = false;
+      }
+      endWord();
+      let op = char;
+      while (/[<>&|-]/.test(script[index + 1] ?? "") && op.length < 3) {
+        index += 1;
+        op += script[index];
+      }
+      redirect = op;
+    } else if (";&|()".includes(char)) {
+      endCommand();
+    } else if (char === " " || char === "\t") {
+      endWord();
+    } else {
+      word += char;
+      inWord = true;
+    }
+  }
+  endCommand();
+  return commands;
+}
+
+const EXIT_CODE_PATTERN = /\b(?:exit code|exited with code|exit status)[:\s]+(-?\d+)/i;
+const WALL_TIME_PATTERN = /\bwall time:\s*([\d.]+)\s*s/i;
+const TIMEOUT_PATTERN = /\b(?:timed out|timeout exceeded)\b/i;
+// Only the edges of the output are checked, so a program that prints
+// "exit code" itself does not count.
+const EDGE_CHARS = 240;
+
+const numberOf = (value: unknown) => (typeof value === "number" && Number.isFinite(value) ? value : undefined);
+
+export function parseShellCall(call: ToolCall): ShellCommand | null {
+  const invocation = readShellInvocation(call);
+  if (!invocation) return null;
+  const args = safeParse<ShellArguments>(call.input ?? "") ?? {};
+  const metadata = call.metadata ?? {};
+  const output = call.output ?? "";
+  const edges = output.length > EDGE_CHARS * 2 ? `${output.slice(0, EDGE_CHARS)}\n${output.slice(-EDGE_CHARS)}` : output;
+
+  const exitMatch = edges.match(EXIT_CODE_PATTERN);
+  const exitCode = numberOf(metadata.exit_code) ?? (exitMatch ? Number(exitMatch[1]) : undefined);
+  const seconds = numberOf(metadata.duration_seconds) ?? numberOf(Number(edges.match(WALL_TIME_PATTERN)?.[1]));
+  // The text is only a fallback: a recorded exit code wins, and a command
+  // that exited 0 did not time out whatever it printed.
+  const timedOut =
+    metadata.timed_out === true ||
+    (numberOf(metadata.exit_code) === undefined && exitCode !== 0 && TIMEOUT_PATTERN.test(edges));
+  return {
+    callId: call.id,
+    tool: call.name,
+    command: invocation.script.trim(),
+    workdir: invocation.workdir,
+    startedAt: call.startedAt ?? call.completedAt,
+    exitCode,
+    durationMs: seconds !== undefined ? Math.round(seconds * 1000) : call.durationMs,
+    timeoutMs: numberOf(args.timeout_ms) ?? numberOf(args.timeout),
+    timedOut,
+    failed: timedOut || (exitCode !== undefined && exitCode !== 0) || metadata.is_error === true,
+  };
+}
+
+export const shellStatusLabel = (command: ShellCommand) => {
+  if (command.timedOut) return "timed out";
+  if (command.exitCode !== undefined) return `exit ${command.exitCode}`;
+  return command.failed ? "error" : "done";
+};
+
+export const parseShellCommands = (toolCalls: ToolCall[]) =>
+  toolCalls.map(parseShellCall).filter((command): command is ShellCommand => Boolean(command));
+
+const commandKey = (command: string) => command.replace(/\s+/g, " ").trim();
+
+// Failures newest first, the slowest runs, and the commands run most often.
+export function buildCommandReport(commands: ShellCommand[], limit = 20): CommandReport {
+  const groups = new Map<string, CommandGroup & { sessions: Set<string> }>();
+  for (const command of commands) {
+    const key = commandKey(command.command);
+    const group = groups.get(key) ?? {
+      command: key,
+      runs: 0,
+      failures: 0,
+      totalDurationMs: 0,
+      sessionCount: 0,
+      sessions: new Set<string>(),
+    };
+    group.runs += 1;
+    if (command.failed) group.failures += 1;
+    if (command.durationMs !== undefined) {
+      group.totalDurationMs += command.durationMs;
+      group.maxDurationMs = Math.max(group.maxDurationMs ?? 0, command.durationMs);
+    }
+    if (command.startedAt && (!group.lastAt || command.startedAt > group.lastAt)) group.lastAt = command.startedAt;
+    group.sessions.add(command.sessionId ?? "");
+    groups.set(key, group);
+  }
+
+  const byNewest = (a: ShellCommand, b: ShellCommand) => ((a.startedAt ?? "") < (b.startedAt ?? "") ? 1 : -1);
+  return {
+    total: commands.length,
+    failed: commands.filter((command) => command.failed).length,
+    timedOut: commands.filter((command) => command.timedOut).length,
+    failures: commands.filter((command) => command.failed).sort(byNewest).slice(0, limit),
+    slowest: commands
+      .filter((command) => command.durationMs !== undefined)
+      .sort((a, b) => (b.durationMs ?? 0) - (a.durationMs ?? 0))
+      .slice(0, limit),
+    repeated: Array.from(groups.values())
+      .filter((group) => group.runs > 1)
+      .sort((a, b) => b.runs - a.runs || b.failures - a.failures)
+      .slice(0, limit)
+      .map(({ sessions, ...group }) => ({ ...group, sessionCount: sessions.size })),
+  };
+}
@@ -0,0 +1,74 @@
+import path from "path";
+import os from "os";
+import { promises as fs } from "fs";
+import type { ParsedSummary } from "./codex";
+
+// Bump when the cached ParsedSummary shape changes, so indexes written by an
+// older build are discarded and rebuilt from the rollouts.
+const SUMMARY_INDEX_VERSION = 1;
+const WRITE_DELAY_MS = 2000;
+
+export const CACHE_DIR =
+  process.env.CODEX_VIEWER_CACHE_DIR ?? path.join(os.homedir(), ".cache", "mooomooo-viewer");
+const INDEX_FILE = path.join(CACHE_DIR, "summary-index.json");
+
+export type SummaryIndexEntry = {
+  size: number;
+  mtimeMs: number;
+  summary: ParsedSummary;
+};
+
+type SummaryIndexFile = {
+  version: number;
+  entries: Record<string, SummaryIndexEntry>;
+};
+
+let writeTimer: ReturnType<typeof setTimeout> | null = null;
+let pendingEntries: Map<string, SummaryIndexEntry> | null = null;
+
+export async function loadSummaryIndex(): Promise<Map<string, SummaryIndexEntry>> {
+  const entries = new Map<string, SummaryIndexEntry>();
+  try {
+    const raw = await fs.readFile(INDEX_FILE, "utf-8");
+    const parsed = JSON.parse(raw) as Partial<SummaryIndexFile>;
+    if (parsed.version !== SUMMARY_INDEX_VERSION || !parsed.entries) {
+      return entries;
+    }
+    for (const [filePath, entry] of Object.entries(parsed.entries)) {
+      if (entry && typeof entry.size === "number" && typeof entry.mtimeMs === "number" && entry.summary) {
+        entries.set(filePath, entry);
+      }
+    }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error("Failed to load summary index, rebuilding", error);
+    }
+  }
+  return entries;
+}
+
+async function writeSummaryIndex(entries: Map<string, SummaryIndexEntry>) {
+  // Head/tail summaries still wait on a full pass for their tool-call count.
+  const settled = Array.from(entries).filter(([, entry]) => !entry.summary.toolCallCountPending);
+  const payload: SummaryIndexFile = {
+    version: SUMMARY_INDEX_VERSION,
+    entries: Object.fromEntries(settled),
+  };
+  const tempFile = `${INDEX_FILE}.${process.pid}.tmp`;
+  await fs.mkdir(CACHE_DIR, { recursive: true });
+  await fs.writeFile(tempFile, JSON.stringify(payload));
+  await fs.rename(tempFile, INDEX_FILE);
+}
+
+export function scheduleSummaryIndexWrite(entries: Map<string, SummaryIndexEntry>) {
+  pendingEntries = entries;
+  if (writeTimer) return;
+  writeTimer = setTimeout(() => {
+    writeTimer = null;
+    const snapshot = pendingEntries;
+    pendingEntries = null;
+    if (!snapshot) return;
+    writeSummaryIndex(snapshot).catch((error) => console.error("Failed to write summary index", error));
+  }, WRITE_DELAY_MS);
+  writeTimer.unref?.();
+}
@@ -0,0 +1,16 @@
+import type { TokenDelta, TokenTimelinePoint } from "./codex";
+
+export const subtractTokens = (a: TokenDelta, b: TokenDelta): TokenDelta => ({
+  totalTokens: a.totalTokens - b.totalTokens,
+  inputTokens: a.inputTokens - b.inputTokens,
+  cachedTokens: a.cachedTokens - b.cachedTokens,
+  userTokens: a.userTokens - b.userTokens,
+  outputTokens: a.outputTokens - b.outputTokens,
+  reasoningTokens: a.reasoningTokens - b.reasoningTokens,
+  billedTokens: a.billedTokens - b.billedTokens,
+});
+
+// Logs without per-response usage only carry running totals, so a point's
+// share is the change since the previous one; the first point is all new.
+export const pointDelta = (point: TokenTimelinePoint, previous?: TokenTimelinePoint): TokenDelta =>
+  point.delta ?? (previous ? subtractTokens(point, previous) : point);
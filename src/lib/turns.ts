@@ -0,0 +1,128 @@
+import type { ChatMessage, TokenDelta, TokenTimelinePoint, ToolCall, Turn, TurnMarker } from "./codex";
+
+type TurnInput = {
+  messages: ChatMessage[];
+  toolCalls: ToolCall[];
+  tokenTimeline: TokenTimelinePoint[];
+  markers: TurnMarker[];
+};
+
+const PROMPT_PREVIEW_CHARS = 280;
+
+const emptyTokens = (): TokenDelta => ({
+  totalTokens: 0,
+  inputTokens: 0,
+  cachedTokens: 0,
+  userTokens: 0,
+  outputTokens: 0,
+  reasoningTokens: 0,
+  billedTokens: 0,
+});
+
+const toMs = (timestamp?: string) => (timestamp ? new Date(timestamp).getTime() : Number.NaN);
+
+const promptPreview = (text: string) => text.trim().slice(0, PROMPT_PREVIEW_CHARS);
+
+const createTurn = (startedAt: string, prompt = ""): Turn => ({
+  id: `turn-${startedAt}`,
+  index: 0,
+  startedAt,
+  prompt: promptPreview(prompt),
+  messageIds: [],
+  toolCallIds: [],
+  tokens: emptyTokens(),
+  cost: 0,
+  outcome: "in_progress",
+});
+
+// Folds newly parsed records into existing turns, so the same code builds the
+// initial list and applies live updates. Each user prompt opens a turn; items
+// are attributed to the turn that was open at their timestamp, and anything
+// logged before the first prompt belongs to the first turn. The prompt comes
+// from the start marker, so injected context logged earlier never stands in
+// for it.
+export function extendTurns(turns: Turn[], input: TurnInput): Turn[] {
+  const next = turns.map((turn) => ({
+    ...turn,
+    messageIds: [...turn.messageIds],
+    toolCallIds: [...turn.toolCallIds],
+    tokens: { ...turn.tokens },
+  }));
+
+  const known = new Set(next.map((turn) => turn.startedAt));
+  for (const marker of input.markers) {
+    if (marker.kind !== "start" || known.has(marker.timestamp)) continue;
+    known.add(marker.timestamp);
+    next.push(createTurn(marker.timestamp, marker.prompt));
+  }
+
+  const firstItem = [
+    ...input.messages.map((message) => message.timestamp),
+    ...input.tokenTimeline.map((point) => point.timestamp),
+  ].sort()[0];
+  if (!next.length && firstItem) next.push(createTurn(firstItem));
+  next.sort((a, b) => toMs(a.startedAt) - toMs(b.startedAt));
+  if (!next.length) return next;
+
+  const turnAt = (timestamp?: string) => {
+    const ms = toMs(timestamp);
+    let match = next[0];
+    for (const turn of next) {
+      if (toMs(turn.startedAt) <= ms) match = turn;
+    }
+    return match;
+  };
+  const touch = (turn: Turn, timestamp?: string) => {
+    if (timestamp && (!turn.endedAt || timestamp > turn.endedAt)) turn.endedAt = timestamp;
+  };
+
+  for (const message of input.messages) {
+    const turn = turnAt(message.timestamp);
+    turn.messageIds.push(message.id);
+    if (message.role === "user" && !turn.prompt && toMs(message.timestamp) >= toMs(turn.startedAt)) {
+      turn.prompt = promptPreview(message.text);
+    }
+    touch(turn, message.timestamp);
+  }
+
+  const assigned = new Set(next.flatMap((turn) => turn.toolCallIds));
+  for (const call of input.toolCalls) {
+    if (!assigned.has(call.id)) {
+      turnAt(call.startedAt ?? call.completedAt).toolCallIds.push(call.id);
+      assigned.add(call.id);
+    }
+    const turn = next.find((candidate) => candidate.toolCallIds.includes(call.id));
+    if (turn) touch(turn, call.completedAt ?? call.startedAt);
+  }
+
+  for (const point of input.tokenTimeline) {
+    const turn = turnAt(point.timestamp);
+    if (point.delta) {
+      for (const key of Object.keys(turn.tokens) as (keyof TokenDelta)[]) {
+        turn.tokens[key] += point.delta[key] ?? 0;
+      }
+    }
+    // Unpriced points make the whole turn's cost unknown.
+    turn.cost = turn.cost === null || point.deltaCost == null ? null : turn.cost + point.deltaCost;
+    touch(turn, point.timestamp);
+  }
+
+  for (const marker of input.markers) {
+    if (marker.kind === "start") continue;
+    const turn = turnAt(marker.timestamp);
+    turn.outcome = marker.kind;
+    turn.outcomeReason = marker.reason;
+    touch(turn, marker.timestamp);
+  }
+
+  // A prompt that was followed by another one without an explicit outcome
+  // still ran to completion.
+  next.forEach((turn, index) => {
+    turn.index = index + 1;
+    if (turn.outcome === "in_progress" && index < next.length - 1) turn.outcome = "completed";
+    turn.durationMs = turn.endedAt ? Math.max(0, toMs(turn.endedAt) - toMs(turn.startedAt)) : undefined;
+  });
+  return next;
+}
+
+export const buildTurns = (input: TurnInput) => extendTurns([], input);
@@ -0,0 +1,168 @@
+import {
+  getSessionSummaries,
+  type SessionFilter,
+  type SessionSummary,
+  type UsageBucket,
+  type UsagePoint,
+  type UsageReport,
+  type UsageTotals,
+} from "./codex";
+
+export const USAGE_BUCKETS: UsageBucket[] = ["day", "week", "month"];
+// Project ids are slugs, so the underscores keep this one from matching a real project.
+export const OTHER_PROJECT_ID = "__other";
+const TOP_PROJECTS = 8;
+export const DAY_MS = 24 * 60 * 60 * 1000;
+export const DEFAULT_RANGE_DAYS = 90;
+export const MAX_RANGE_DAYS = 5 * 366;
+
+export type UsageOptions = SessionFilter & {
+  from: string;
+  to: string;
+  bucket: UsageBucket;
+  // The viewer's IANA time zone, e.g. "Europe/Berlin".
+  timeZone: string;
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const isUsageDate = (value: string) => DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(`${value}T00:00:00Z`));
+
+const dayKey = (ms: number) => new Date(ms).toISOString().slice(0, 10);
+
+const wallClockFormats = new Map<string, Intl.DateTimeFormat>();
+
+// Throws a RangeError for zones the runtime doesn't know.
+function wallClockFormat(timeZone: string) {
+  let format = wallClockFormats.get(timeZone);
+  if (!format) {
+    format = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    wallClockFormats.set(timeZone, format);
+  }
+  return format;
+}
+
+export const isTimeZone = (value: string) => {
+  try {
+    wallClockFormat(value);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// The wall-clock time in `timeZone` as if it were UTC. The offset is looked up
+// for each instant, so sessions on either side of a DST change land correctly.
+export function wallClockMs(ms: number, timeZone: string) {
+  const parts = Object.fromEntries(
+    wallClockFormat(timeZone)
+      .formatToParts(ms)
+      .map((part) => [part.type, Number(part.value)])
+  );
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+}
+
+// Buckets are computed on "local midnight as UTC" timestamps so the UTC getters
+// give the viewer's calendar; weeks start on Monday.
+function bucketStart(dayMs: number, bucket: UsageBucket) {
+  const date = new Date(dayMs);
+  if (bucket === "week") return dayMs - ((date.getUTCDay() + 6) % 7) * DAY_MS;
+  if (bucket === "month") return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+  return dayMs;
+}
+
+function nextBucket(startMs: number, bucket: UsageBucket) {
+  if (bucket === "week") return startMs + 7 * DAY_MS;
+  if (bucket === "month") {
+    const date = new Date(startMs);
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+  }
+  return startMs + DAY_MS;
+}
+
+const emptyTotals = (): UsageTotals => ({ sessions: 0, totalTokens: 0, billedTokens: 0, cost: 0, unpricedSessions: 0 });
+
+function addSession(totals: UsageTotals, session: SessionSummary) {
+  totals.sessions += 1;
+  totals.totalTokens += session.totalTokens;
+  totals.billedTokens += session.billedTokens;
+  if (session.cost === null) {
+    totals.unpricedSessions += 1;
+  } else {
+    totals.cost += session.cost;
+  }
+}
+
+function emptyPoints(fromMs: number, toMs: number, bucket: UsageBucket) {
+  const points = new Map<string, UsagePoint>();
+  for (let start = bucketStart(fromMs, bucket); start <= toMs; start = nextBucket(start, bucket)) {
+    points.set(dayKey(start), { start: dayKey(start), ...emptyTotals(), projects: {} });
+  }
+  return points;
+}
+
+// Each session counts once, on the local day it started.
+export async function getUsageReport(options: UsageOptions): Promise<UsageReport> {
+  const { from, to, bucket, timeZone, ...filter } = options;
+  const fromMs = Date.parse(`${from}T00:00:00Z`);
+  const toMs = Date.parse(`${to}T00:00:00Z`);
+  const sessions = (await getSessionSummaries(filter))
+    .map((session) => ({ session, startedMs: Date.parse(session.startedAt) }))
+    .filter(({ startedMs }) => !Number.isNaN(startedMs))
+    .map(({ session, startedMs }) => ({ session, localMs: wallClockMs(startedMs, timeZone) }))
+    .filter(({ localMs }) => localMs >= fromMs && localMs < toMs + DAY_MS);
+
+  const projectTokens = new Map<string, { id: string; name: string; totalTokens: number }>();
+  for (const { session } of sessions) {
+    const project = projectTokens.get(session.projectId) ?? { id: session.projectId, name: session.projectName, totalTokens: 0 };
+    project.totalTokens += session.totalTokens;
+    projectTokens.set(session.projectId, project);
+  }
+  const ranked = Array.from(projectTokens.values()).sort((a, b) => b.totalTokens - a.totalTokens);
+  const shown = new Set(ranked.slice(0, TOP_PROJECTS).map((project) => project.id));
+  const projects = ranked.filter((project) => shown.has(project.id));
+  if (ranked.length > TOP_PROJECTS) {
+    projects.push({
+      id: OTHER_PROJECT_ID,
+      name: "Other projects",
+      totalTokens: ranked.slice(TOP_PROJECTS).reduce((total, project) => total + project.totalTokens, 0),
+    });
+  }
+
+  const totals = emptyTotals();
+  const buckets = emptyPoints(fromMs, toMs, bucket);
+  const days = emptyPoints(fromMs, toMs, "day");
+  const activity = Array.from({ length: 7 }, () => Array.from({ length: 24 }, () => 0));
+  for (const { session, localMs } of sessions) {
+    const dayMs = localMs - (localMs % DAY_MS);
+    const projectKey = shown.has(session.projectId) ? session.projectId : OTHER_PROJECT_ID;
+    for (const point of [buckets.get(dayKey(bucketStart(dayMs, bucket))), days.get(dayKey(dayMs))]) {
+      if (!point) continue;
+      addSession(point, session);
+      point.projects[projectKey] = (point.projects[projectKey] ?? 0) + session.totalTokens;
+    }
+    addSession(totals, session);
+    const local = new Date(localMs);
+    activity[local.getUTCDay()][local.getUTCHours()] += 1;
+  }
+
+  return {
+    from,
+    to,
+    bucket,
+    totals,
+    projects,
+    buckets: Array.from(buckets.values()),
+    days: Array.from(days.values()),
+    activity,
+  };
+}
@@ -0,0 +1,169 @@
+import path from "path";
+import os from "os";
+import { promises as fs } from "fs";
+import { slugify } from "./projects";
+
+// Several paths (or globs) shown as a single project under `name`.
+export type ProjectMerge = {
+  name: string;
+  paths: string[];
+};
+
+export type ViewerConfig = {
+  projects: {
+    // Display names keyed by project id or project path.
+    rename: Record<string, string>;
+    merge: ProjectMerge[];
+    // Globs matched against project paths and ids.
+    hide: string[];
+  };
+  redaction: {
+    // Extra regular expressions masked on top of the built-in secret patterns.
+    patterns: string[];
+  };
+};
+
+type ProjectIdentity = { id: string; name: string; path: string };
+
+const CONFIG_FILE =
+  process.env.CODEX_VIEWER_CONFIG_FILE ?? path.join(os.homedir(), ".config", "mooomooo-viewer", "config.json");
+
+const emptyConfig = (): ViewerConfig => ({ projects: { rename: {}, merge: [], hide: [] }, redaction: { patterns: [] } });
+
+let viewerConfig = emptyConfig();
+let configMtimeMs: number | null = null;
+const patternCache = new Map<string, RegExp>();
+let compiledRedaction: { source: string[]; patterns: RegExp[] } | null = null;
+
+const isString = (value: unknown): value is string => typeof value === "string" && value.trim().length > 0;
+
+// Keeps the well-formed parts of a config and drops the rest, so a typo in one
+// entry does not discard the whole file.
+export function normalizeViewerConfig(value: unknown): ViewerConfig {
+  const config = emptyConfig();
+  const redaction = (value as { redaction?: { patterns?: unknown } } | null)?.redaction;
+  if (Array.isArray(redaction?.patterns)) {
+    config.redaction.patterns = redaction.patterns.filter(isString).filter((pattern) => !redactionPatternError(pattern));
+  }
+  const projects = (value as { projects?: Record<string, unknown> } | null)?.projects;
+  if (!projects || typeof projects !== "object") return config;
+
+  if (projects.rename && typeof projects.rename === "object") {
+    for (const [key, name] of Object.entries(projects.rename as Record<string, unknown>)) {
+      if (isString(key) && isString(name)) config.projects.rename[key.trim()] = name.trim();
+    }
+  }
+  if (Array.isArray(projects.merge)) {
+    for (const entry of projects.merge as { name?: unknown; paths?: unknown }[]) {
+      const paths = Array.isArray(entry?.paths) ? entry.paths.filter(isString).map((item) => item.trim()) : [];
+      if (isString(entry?.name) && paths.length) config.projects.merge.push({ name: entry.name.trim(), paths });
+    }
+  }
+  if (Array.isArray(projects.hide)) {
+    config.projects.hide = projects.hide.filter(isString).map((item) => item.trim());
+  }
+  return config;
+}
+
+// A pattern that matches the empty string would insert a marker between every
+// character of every response, so it is rejected like a syntax error.
+export function redactionPatternError(pattern: string): string | null {
+  try {
+    return new RegExp(pattern).test("") ? "Pattern must not match an empty string" : null;
+  } catch (error) {
+    return error instanceof Error ? error.message : "Invalid pattern";
+  }
+}
+
+// Returns true when the config changed since the last call.
+export async function refreshViewerConfig(): Promise<boolean> {
+  const stat = await fs.stat(CONFIG_FILE).catch(() => null);
+  const mtimeMs = stat?.mtimeMs ?? -1;
+  if (mtimeMs === configMtimeMs) return false;
+  configMtimeMs = mtimeMs;
+  viewerConfig = emptyConfig();
+  if (!stat) return true;
+  try {
+    viewerConfig = normalizeViewerConfig(JSON.parse(await fs.readFile(CONFIG_FILE, "utf-8")));
+  } catch (error) {
+    console.error(`Failed to read viewer config ${CONFIG_FILE}`, error);
+  }
+  return true;
+}
+
+export async function getViewerConfig(): Promise<ViewerConfig> {
+  await refreshViewerConfig();
+  return viewerConfig;
+}
+
+export async function saveViewerConfig(value: unknown): Promise<ViewerConfig> {
+  const config = normalizeViewerConfig(value);
+  await fs.mkdir(path.dirname(CONFIG_FILE), { recursive: true });
+  await fs.writeFile(CONFIG_FILE, `${JSON.stringify(config, null, 2)}\n`);
+  // Force the next refresh to reload and report a change, even when the write
+  // landed within the same mtime tick.
+  configMtimeMs = null;
+  return config;
+}
+
+// `*` stays within a path segment and `**` crosses them; a trailing `/**`
+// also matches the directory itself.
+function globToRegExp(pattern: string): RegExp {
+  const cached = patternCache.get(pattern);
+  if (cached) return cached;
+  let source = "";
+  for (let index = 0; index < pattern.length; index += 1) {
+    const char = pattern[index];
+    if (pattern.startsWith("/**", index) && index + 3 === pattern.length) {
+      source += "(?:/.*)?";
+      break;
+    }
+    if (pattern.startsWith("**", index)) {
+      source += ".*";
+      index += 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  const regex = new RegExp(`^${source}$`);
+  patternCache.set(pattern, regex);
+  return regex;
+}
+
+const matchesProject = (pattern: string, project: ProjectIdentity) =>
+  globToRegExp(pattern).test(project.path) || globToRegExp(pattern).test(project.id);
+
+// Merges apply first, then renames, which may target either the derived id
+// or the merged one.
+export function configureProject<T extends ProjectIdentity>(project: T): T {
+  let next = project;
+  const merge = viewerConfig.projects.merge.find((entry) =>
+    entry.paths.some((pattern) => matchesProject(pattern, project))
+  );
+  if (merge) {
+    const [first] = merge.paths;
+    next = {
+      ...next,
+      id: slugify(merge.name) || "merged",
+      name: merge.name,
+      path: /[*?]/.test(first) ? next.path : first,
+    };
+  }
+  const rename = viewerConfig.projects.rename[next.id] ?? viewerConfig.projects.rename[next.path];
+  return rename ? { ...next, name: rename } : next;
+}
+
+export const isProjectHidden = (project: ProjectIdentity) =>
+  viewerConfig.projects.hide.some((pattern) => matchesProject(pattern, project));
+
+export function redactionPatterns(): RegExp[] {
+  const source = viewerConfig.redaction.patterns;
+  if (compiledRedaction?.source !== source) {
+    compiledRedaction = { source, patterns: source.map((pattern) => new RegExp(pattern, "g")) };
+  }
+  return compiledRedaction.patterns;
+}
@@ -0,0 +1,125 @@
+import type { Worker } from "worker_threads";
+
+type PoolRequest<TTask> = { id: number; task: TTask };
+type PoolResponse<TResult> = { id: number; result?: TResult; error?: string };
+
+type QueuedTask<TTask, TResult> = {
+  id: number;
+  task: TTask;
+  resolve: (result: TResult) => void;
+  reject: (error: Error) => void;
+};
+
+type PoolSlot<TTask, TResult> = {
+  worker: Worker;
+  current: QueuedTask<TTask, TResult> | null;
+};
+
+export interface WorkerPool<TTask, TResult> {
+  size: number;
+  run: (task: TTask) => Promise<TResult>;
+  destroy: () => Promise<void>;
+}
+
+interface WorkerPoolOptions<TTask, TResult> {
+  size: number;
+  createWorker: () => Worker;
+  // Runs a task on the calling thread when workers are disabled or cannot start.
+  fallback: (task: TTask) => Promise<TResult>;
+}
+
+export function createWorkerPool<TTask, TResult>(
+  options: WorkerPoolOptions<TTask, TResult>
+): WorkerPool<TTask, TResult> {
+  const queue: QueuedTask<TTask, TResult>[] = [];
+  const slots: PoolSlot<TTask, TResult>[] = [];
+  let nextId = 0;
+  let disabled = options.size <= 0;
+
+  const runInline = (job: QueuedTask<TTask, TResult>) => {
+    options.fallback(job.task).then(job.resolve, job.reject);
+  };
+
+  const disable = (reason: unknown) => {
+    if (disabled) return;
+    disabled = true;
+    console.error("Parser worker pool unavailable, parsing on the main thread", reason);
+    for (const slot of slots.splice(0)) {
+      if (slot.current) runInline(slot.current);
+      void slot.worker.terminate();
+    }
+    for (const job of queue.splice(0)) runInline(job);
+  };
+
+  const dispatch = () => {
+    if (disabled) {
+      for (const job of queue.splice(0)) runInline(job);
+      return;
+    }
+    while (queue.length) {
+      let slot = slots.find((candidate) => !candidate.current);
+      if (!slot && slots.length < options.size) {
+        slot = spawn() ?? undefined;
+        if (disabled) return;
+      }
+      if (!slot) return;
+      const job = queue.shift()!;
+      slot.current = job;
+      slot.worker.postMessage({ id: job.id, task: job.task } satisfies PoolRequest<TTask>);
+    }
+  };
+
+  const spawn = (): PoolSlot<TTask, TResult> | null => {
+    let worker: Worker;
+    try {
+      worker = options.createWorker();
+    } catch (error) {
+      disable(error);
+      return null;
+    }
+    worker.unref();
+    const slot: PoolSlot<TTask, TResult> = { worker, current: null };
+    worker.on("message", (message: PoolResponse<TResult>) => {
+      const job = slot.current;
+      if (!job || job.id !== message.id) return;
+      slot.current = null;
+      if (message.error !== undefined) {
+        job.reject(new Error(message.error));
+      } else {
+        job.resolve(message.result as TResult);
+      }
+      dispatch();
+    });
+    worker.on("error", (error) => disable(error));
+    worker.on("exit", (code) => {
+      const index = slots.indexOf(slot);
+      if (index === -1) return;
+      slots.splice(index, 1);
+      if (slot.current) {
+        queue.unshift(slot.current);
+        slot.current = null;
+      }
+      if (code !== 0 && !slots.length) {
+        disable(new Error(`Parser worker exited with code ${code}`));
+      } else {
+        dispatch();
+      }
+    });
+    slots.push(slot);
+    return slot;
+  };
+
+  return {
+    size: options.size,
+    run: (task) =>
+      new Promise<TResult>((resolve, reject) => {
+        nextId += 1;
+        queue.push({ id: nextId, task, resolve, reject });
+        dispatch();
+      }),
+    destroy: async () => {
+      const workers = slots.splice(0).map((slot) => slot.worker);
+      await Promise.all(workers.map((worker) => worker.terminate()));
+    },
+  };
+}